@@ -0,0 +1,23 @@
+import { layer } from "@codemirror/view";
+import RectMarker from "src/rect-marker";
+
+/**
+ * Layer drawing a band under the line of the primary cursor, sliding
+ * between lines as the cursor moves.
+ */
+export const activeLineLayer = layer({
+	above: false,
+	class: "cm-activeLineLayer",
+	markers: view => {
+		// The table cell being edited has its own lines.
+		if (!view.hasFocus) return [];
+		return [RectMarker.forLine(view, "cm-activeLineBand cm-animatedRect", view.state.selection.main.head)];
+	},
+	update: update => (
+		update.docChanged ||
+		update.selectionSet ||
+		update.viewportChanged ||
+		update.geometryChanged ||
+		update.focusChanged
+	)
+});
@@ -1,24 +1,50 @@
-import { ViewPlugin, ViewUpdate } from "@codemirror/view";
-import { CursorEffectPlugin, CursorEffectConfig } from "src/cursor-effect";
+import { Setting } from "obsidian";
+import { CursorEffectPlugin, CursorEffectConfig, EffectCursor } from "src/cursor-effect";
+import { BlinkConfig, DEFAULT_BLINK } from "src/blink";
+import { DEFAULT_PAINT, PaintConfig, PAINT_SCHEMA } from "src/color";
+import { CursorEffectSpec } from "src/effect-registry";
+import { SettingsSchema } from "src/settings-schema";
+import { advanceMotion, DEFAULT_MOTION, FRAME_MS, MotionConfig, MOTION_SCHEMA } from "src/motion";
+import { addMotionSettings, addPaintSettings, addThemeColorSettings, addTrailLengthSetting } from "src/setting-tab";
 
-const BLINK_CLASS = "blink-cursor-canvas";
 const BLINK_ENABLED_CLASS = "blink-cursor-enabled";
 
-export interface BlinkCursorConfig extends CursorEffectConfig {
+export interface BlinkCursorConfig extends CursorEffectConfig, PaintConfig {
     enabled: boolean;
-    color: string;
+    /** Width of the cursor and its ghosts in the bar shape, in pixels. */
+    width: number;
+    /** Ghost lifetime, counted in 60 Hz frames. */
     tailLength: number;
+    /** Opacity of a newly left ghost. */
+    ghostOpacity: number;
+    /** Moves longer than this, in pixels, jump without leaving ghosts. */
+    resetDistance: number;
+    /** Full blink cycle in miliseconds, null to follow the cursor's. */
+    blinkPeriod: number | null;
+    motion: MotionConfig;
 }
 
-let config: BlinkCursorConfig = {
+const DEFAULT_CONFIG: BlinkCursorConfig = {
     enabled: false,
-    color: "#d6d1ff",
+    ...DEFAULT_PAINT,
+    color: "--text-accent",
+    width: 4,
     tailLength: 8,
+    ghostOpacity: 0.4,
+    resetDistance: 60,
+    blinkPeriod: null,
+    motion: { ...DEFAULT_MOTION, smoothness: 0.25 }
 };
 
-export function updateBlinkConfig(newConfig: Partial<BlinkCursorConfig>): void {
-    Object.assign(config, newConfig);
-}
+const CONFIG_SCHEMA: SettingsSchema<BlinkCursorConfig> = {
+    ...PAINT_SCHEMA,
+    width: { type: "number", min: 1, max: 20 },
+    tailLength: { type: "number", min: 1, max: 100 },
+    ghostOpacity: { type: "number", min: 0, max: 1 },
+    resetDistance: { type: "number", min: 0, max: 10000 },
+    blinkPeriod: { type: "number", min: 50, max: 10000, nullable: true },
+    motion: { type: "object", fields: MOTION_SCHEMA }
+};
 
 interface Ghost {
     x: number;
@@ -27,133 +53,176 @@ interface Ghost {
     opacity: number;
 }
 
-class BlinkCursorPlugin extends CursorEffectPlugin {
-    private lastActivityTime: number = 0;
-    private readonly blinkInterval = 530; // Standard caret blink is ~530ms
-
-    private ghosts: Ghost[] = [];
-    private lastX: number = 0;
-    private lastY: number = 0;
+interface BlinkCursor extends EffectCursor {
+    ghosts: Ghost[];
+    lastX: number;
+    lastY: number;
+}
 
-    getConfig(): CursorEffectConfig {
-        return config;
+class BlinkCursorPlugin extends CursorEffectPlugin<BlinkCursor, BlinkCursorConfig> {
+    protected createCursor(base: EffectCursor): BlinkCursor {
+        return { ...base, ghosts: [], lastX: base.currentX, lastY: base.currentY };
     }
 
     protected enable(): void {
         super.enable();
-        if (this.canvas) {
-            this.canvas.className = BLINK_CLASS;
-            this.view.dom.classList.add(BLINK_ENABLED_CLASS);
-        }
-        this.lastActivityTime = Date.now();
-        this.lastX = this.currentX;
-        this.lastY = this.currentY;
+        if (this.surface) this.view.dom.classList.add(BLINK_ENABLED_CLASS);
     }
 
     protected disable(): void {
         super.disable();
         this.view.dom.classList.remove(BLINK_ENABLED_CLASS);
-        this.ghosts = [];
     }
 
-    protected onViewUpdate(update: ViewUpdate): void {
-        if (update.docChanged || update.selectionSet) {
-            this.lastActivityTime = Date.now();
-            // Force redraw immediately
-            if (this.initialized && this.ctx) {
-                this.render(this.ctx);
-            }
-        }
+    protected getBlinkConfig(): BlinkConfig {
+        const blink = super.getBlinkConfig();
+        const { blinkPeriod } = this.getConfig();
+        return blinkPeriod === null ? blink : { ...blink, blinkPeriod };
+    }
+
+    protected needsFrame(): boolean {
+        return this.cursors.some(cursor => cursor.ghosts.length > 0) || (this.getConfig().rainbow && this.hasFocus);
     }
 
-    protected onScrollChange(dx: number, dy: number): void {
-        for (const g of this.ghosts) {
-            g.x -= dx;
-            g.y -= dy;
+    render(ctx: CanvasRenderingContext2D, dt: number): void {
+        // Blinks through `fillHead()`, along with the native cursor.
+        const opacity = 0.6 * this.layerOpacity;
+
+        for (const cursor of this.cursors) {
+            this.renderCursor(ctx, cursor, opacity * cursor.alpha, dt);
         }
-        this.lastX -= dx;
-        this.lastY -= dy;
+        ctx.globalAlpha = 1.0;
     }
 
-    render(ctx: CanvasRenderingContext2D): void {
-        // Smooth cursor movement - Lower factor = smoother (more "floaty")
-        const lerp = (start: number, end: number, factor: number) => {
-            return start + (end - start) * factor;
-        };
-        this.currentX = lerp(this.currentX, this.targetX, 0.25);
-        this.currentY = lerp(this.currentY, this.targetY, 0.25);
+    private renderCursor(ctx: CanvasRenderingContext2D, cursor: BlinkCursor, opacity: number, dt: number): void {
+        const config = this.getConfig();
+        advanceMotion(cursor, dt, config.motion);
 
         // --- Ghost Spawning Logic ---
-        const dx = this.currentX - this.lastX;
-        const dy = this.currentY - this.lastY;
+        const dx = cursor.currentX - cursor.lastX;
+        const dy = cursor.currentY - cursor.lastY;
         const dist = Math.hypot(dx, dy);
 
         // Spawn ghosts continuously to fill gaps - 1px for perfect smoothness
         const spawnInterval = 1;
 
-        if (dist > 60) {
-            this.lastX = this.currentX;
-            this.lastY = this.currentY;
+        if (dist > config.resetDistance) {
+            cursor.lastX = cursor.currentX;
+            cursor.lastY = cursor.currentY;
         } else if (dist > spawnInterval) {
             const steps = Math.ceil(dist / spawnInterval);
             for (let i = 1; i <= steps; i++) {
                 const t = i / steps;
-                const gx = this.lastX + (dx * t);
-                const gy = this.lastY + (dy * t);
+                const gx = cursor.lastX + (dx * t);
+                const gy = cursor.lastY + (dy * t);
 
-                this.ghosts.push({
+                cursor.ghosts.push({
                     x: gx,
                     y: gy,
-                    height: this.currentHeight || 20,
-                    opacity: 0.4
+                    height: cursor.height || 20,
+                    opacity: config.ghostOpacity
                 });
             }
-            this.lastX = this.currentX;
-            this.lastY = this.currentY;
+            cursor.lastX = cursor.currentX;
+            cursor.lastY = cursor.currentY;
         }
 
-        ctx.fillStyle = config.color;
+        const paint = this.getPaint(config);
 
         // --- Render Ghosts ---
         // Calculate decay based on tail length. 
-        // 0.6 opacity / 15 frames ~= 0.04 decay.
+        // 0.6 opacity / 15 frames ~= 0.04 decay per 60 Hz frame, scaled by
+        // the elapsed time.
         // Formula: 0.6 / tailLength
-        const decay = 0.6 / (config.tailLength || 15);
+        const decay = 0.6 / (config.tailLength || 15) * (dt / FRAME_MS);
 
-        for (let i = this.ghosts.length - 1; i >= 0; i--) {
-            const g = this.ghosts[i];
+        for (let i = cursor.ghosts.length - 1; i >= 0; i--) {
+            const g = cursor.ghosts[i];
             g.opacity -= decay;
 
             if (g.opacity <= 0) {
-                this.ghosts.splice(i, 1);
+                cursor.ghosts.splice(i, 1);
                 continue;
             }
 
-            ctx.globalAlpha = g.opacity;
-            ctx.fillRect(g.x, g.y, 4, g.height);
+            // Older ghosts take the colors further along the trail.
+            ctx.fillStyle = paint.css(1 - g.opacity / config.ghostOpacity);
+            ctx.globalAlpha = g.opacity * cursor.alpha * this.layerOpacity;
+            this.fillHeadRect(ctx, this.getHeadRect(cursor, g.x, g.y, g.height, config.width));
         }
 
         // --- Render Main Cursor ---
-        const now = Date.now();
-        const timeSinceActivity = now - this.lastActivityTime;
-
-        let opacity = 0.6;
-
-        // If idle for more than 500ms, start blinking
-        if (timeSinceActivity > 500) {
-            const phase = (now % (this.blinkInterval * 2));
-            if (phase > this.blinkInterval) {
-                opacity = 0;
-            }
-        }
-
         if (opacity > 0) {
             ctx.globalAlpha = opacity;
-            const height = this.currentHeight || 20;
-            ctx.fillRect(this.currentX, this.currentY, 4, height);
-            ctx.globalAlpha = 1.0;
+            ctx.fillStyle = paint.css(0);
+            const height = cursor.height || 20;
+            this.fillHead(ctx, cursor, cursor.currentX, cursor.currentY, height, config.width);
         }
     }
 }
 
-export const blinkCursorPlugin = ViewPlugin.fromClass(BlinkCursorPlugin);
+export const blinkCursorEffect: CursorEffectSpec<BlinkCursorConfig> = {
+    id: "blink",
+    name: "Custom Blink Cursor",
+    effect: BlinkCursorPlugin,
+    defaultConfig: DEFAULT_CONFIG,
+    schema: CONFIG_SCHEMA,
+    buildSettings({ containerEl, config, defaults, reset, save, refresh }) {
+        addThemeColorSettings(containerEl, config, "Blink Cursor Color", "Color of the custom cursor and trail.", save, reset);
+        addPaintSettings(containerEl, config, save, refresh, reset);
+        new Setting(containerEl)
+            .setName("Cursor Width")
+            .setDesc("Width of the cursor and its ghosts in the bar shape, in pixels.")
+            .addExtraButton(reset("width"))
+            .addSlider(slider => slider
+                .setLimits(1, 10, 1)
+                .setValue(config.width)
+                .setDynamicTooltip()
+                .onChange(val => {
+                    config.width = val;
+                    save();
+                })
+            );
+        new Setting(containerEl)
+            .setName("Blink Rate")
+            .setDesc("Length of a full blink cycle in miliseconds. Restore the default to follow the cursor's blink rate.")
+            .addExtraButton(reset("blinkPeriod"))
+            .addSlider(slider => slider
+                .setLimits(200, 3000, 10)
+                .setValue(config.blinkPeriod ?? DEFAULT_BLINK.blinkPeriod)
+                .setDynamicTooltip()
+                .onChange(val => {
+                    config.blinkPeriod = val;
+                    save();
+                })
+            );
+        new Setting(containerEl)
+            .setName("Ghost Opacity")
+            .setDesc("Opacity of the ghosts left along the way, fading out from there.")
+            .addExtraButton(reset("ghostOpacity"))
+            .addSlider(slider => slider
+                .setLimits(0.05, 1, 0.05)
+                .setValue(config.ghostOpacity)
+                .setDynamicTooltip()
+                .onChange(val => {
+                    config.ghostOpacity = val;
+                    save();
+                })
+            );
+        new Setting(containerEl)
+            .setName("Reset Distance")
+            .setDesc("Moves longer than this, in pixels, jump without leaving ghosts.")
+            .addExtraButton(reset("resetDistance"))
+            .addSlider(slider => slider
+                .setLimits(10, 500, 10)
+                .setValue(config.resetDistance)
+                .setDynamicTooltip()
+                .onChange(val => {
+                    config.resetDistance = val;
+                    save();
+                })
+            );
+        addMotionSettings(containerEl, config.motion, defaults.motion, save, refresh);
+        addTrailLengthSetting(containerEl, config, save, reset("tailLength"));
+    }
+};
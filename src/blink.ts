@@ -0,0 +1,88 @@
+/**
+ * - `blink`: hard on and off.
+ * - `smooth`: fades out and in.
+ * - `phase`: fades out and in, spending longer in between.
+ * - `expand`: shrinks to its middle and grows back, staying opaque.
+ * - `solid`: never blinks.
+ */
+export type BlinkStyle = "blink" | "smooth" | "phase" | "expand" | "solid";
+
+export const BLINK_STYLES: readonly BlinkStyle[] = ["blink", "smooth", "phase", "expand", "solid"];
+
+/**
+ * Cursor blink, shared by the native cursor and the canvas effects.
+ */
+export interface BlinkConfig {
+	blinkStyle: BlinkStyle;
+	/** Idle time before blinking, in miliseconds. */
+	blinkDelay: number;
+	/** Length of a full blink cycle, in miliseconds. */
+	blinkPeriod: number;
+	/** Blink cycles before the cursor stays still, 0 to never blink. */
+	blinkCount: number;
+	/** Blink endlessly, regardless of the count. */
+	blinkInfinite: boolean;
+}
+
+export const DEFAULT_BLINK: BlinkConfig = {
+	blinkStyle: "smooth",
+	blinkDelay: 350,
+	blinkPeriod: 1000,
+	blinkCount: 10,
+	blinkInfinite: false
+};
+
+export interface BlinkState {
+	opacity: number;
+	/** Vertical scale of the cursor, about its middle. */
+	scale: number;
+	/**
+	 * Time until the state changes, in miliseconds. It's 0 while changing
+	 * continuously, and infinity once it stays still.
+	 */
+	next: number;
+}
+
+/** Fade range of each continuous style, as portions of a half cycle. */
+const FADE_RANGES: Partial<Record<BlinkStyle, [from: number, to: number]>> = {
+	smooth: [0.2, 0.6],
+	phase: [0.2, 0.9],
+	expand: [0.2, 0.8]
+};
+
+function easeInOut(t: number): number {
+	return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+}
+
+/**
+ * Get the blink state of the cursor after being idle for the given time.
+ * Mirrors the keyframes of the native cursor in `styles.css`.
+ */
+export function getBlinkState(config: BlinkConfig, idleTime: number): BlinkState {
+	let { blinkStyle, blinkDelay, blinkPeriod, blinkCount, blinkInfinite } = config;
+
+	if (idleTime < blinkDelay) return { opacity: 1, scale: 1, next: blinkDelay - idleTime };
+
+	let time = idleTime - blinkDelay;
+	if (
+		blinkStyle == "solid" ||
+		blinkPeriod <= 0 ||
+		(!blinkInfinite && time >= blinkCount * blinkPeriod)
+	) return { opacity: 1, scale: 1, next: Infinity };
+
+	let elapsed = time % blinkPeriod,
+		half = blinkPeriod / 2;
+
+	if (blinkStyle == "blink") return elapsed < half
+		? { opacity: 1, scale: 1, next: half - elapsed }
+		: { opacity: 0, scale: 1, next: blinkPeriod - elapsed };
+
+	// Goes from 0 to 1 in the first half, and back in the other one.
+	let progress = elapsed < half ? elapsed / half : (blinkPeriod - elapsed) / half,
+		[from, to] = FADE_RANGES[blinkStyle] ?? [0, 1],
+		value = 1 - easeInOut(Math.min(Math.max((progress - from) / (to - from), 0), 1));
+
+	return blinkStyle == "expand"
+		? { opacity: 1, scale: value, next: 0 }
+		: { opacity: value, scale: 1, next: 0 };
+}
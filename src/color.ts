@@ -0,0 +1,271 @@
+import { SettingsSchema } from "src/settings-schema";
+
+export interface RGBA {
+	r: number;
+	g: number;
+	b: number;
+	a: number;
+}
+
+/**
+ * Color that follows the theme, either light or dark mode. Each of them is
+ * any CSS color, or a CSS variable such as `--interactive-accent`.
+ */
+export interface ThemeColorConfig {
+	color: string;
+	/** Used in dark mode, `color` is used instead if empty. */
+	colorDark: string;
+}
+
+/**
+ * Colors of an effect drawing a trail.
+ */
+export interface PaintConfig extends ThemeColorConfig {
+	/** Further colors along the trail, from the head to its end. */
+	gradient: string[];
+	/** Cycle the hue over time. */
+	rainbow: boolean;
+	/** Length of a full hue cycle, in miliseconds. */
+	rainbowPeriod: number;
+}
+
+export const DEFAULT_PAINT: Omit<PaintConfig, "color"> = {
+	colorDark: "",
+	gradient: [],
+	rainbow: false,
+	rainbowPeriod: 4000
+};
+
+export const THEME_COLOR_SCHEMA: SettingsSchema<ThemeColorConfig> = {
+	color: { type: "color" },
+	colorDark: { type: "color", optional: true }
+};
+
+export const PAINT_SCHEMA: SettingsSchema<PaintConfig> = {
+	...THEME_COLOR_SCHEMA,
+	gradient: { type: "list", item: { type: "color" } },
+	rainbow: { type: "boolean" },
+	rainbowPeriod: { type: "number", min: 100, max: 60000 }
+};
+
+/** Hue shift from the head to the end of a rainbow trail, in degrees. */
+const RAINBOW_TRAIL_SPREAD = 90;
+
+const TRANSPARENT: RGBA = { r: 0, g: 0, b: 0, a: 0 };
+
+const CSS_VARIABLE = /^--[\w-]+$/;
+
+/**
+ * Element resolving the colors of a window, inheriting the theme of its
+ * body, along with the colors it resolved keyed by their CSS value.
+ */
+interface ColorProbe {
+	el: HTMLElement;
+	/**
+	 * Single pixel reading the colors `parseRgb()` doesn't understand, null
+	 * if the canvas is unavailable.
+	 */
+	pixel: CanvasRenderingContext2D | null;
+	/** Cleared upon `css-change`. */
+	cache: Map<string, RGBA>;
+}
+
+/** Probe of each window, keyed by its document. */
+const probes = new Map<Document, ColorProbe>();
+
+/**
+ * Turn a bare CSS variable name into a `var()` reference, leaving other
+ * values as is.
+ */
+export function toCssValue(value: string): string {
+	value = value.trim();
+	return CSS_VARIABLE.test(value) ? `var(${value})` : value;
+}
+
+/**
+ * Whether the value is a valid CSS color, or a CSS variable name. The
+ * variable itself isn't checked, it may be defined later by the theme.
+ */
+export function isCssColor(value: string): boolean {
+	value = value.trim();
+	return CSS_VARIABLE.test(value) || /^var\(--[\w-]+.*\)$/.test(value) || CSS.supports("color", value);
+}
+
+function parseRgb(value: string): RGBA | null {
+	let match = value.match(/^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:[,\s/]+([\d.]+%?))?\s*\)$/);
+	if (!match) return null;
+
+	let [, r, g, b, a] = match,
+		alpha = a === undefined ? 1 : a.endsWith("%") ? parseFloat(a) / 100 : parseFloat(a);
+	return { r: parseFloat(r), g: parseFloat(g), b: parseFloat(b), a: alpha };
+}
+
+/**
+ * Read the color by painting it on a single pixel, for the computed forms
+ * other than `rgb()`, such as `oklch()` or `color(srgb ...)`.
+ */
+function readPixel(pixel: CanvasRenderingContext2D | null, value: string): RGBA | null {
+	if (!pixel || !CSS.supports("color", value)) return null;
+
+	pixel.clearRect(0, 0, 1, 1);
+	pixel.fillStyle = value;
+	pixel.fillRect(0, 0, 1, 1);
+	let [r, g, b, a] = pixel.getImageData(0, 0, 1, 1).data;
+	return { r, g, b, a: a / 255 };
+}
+
+function getProbe(doc: Document): ColorProbe {
+	let probe = probes.get(doc);
+	if (!probe) {
+		let canvas = doc.createElement("canvas");
+		canvas.width = canvas.height = 1;
+		probes.set(doc, probe = {
+			el: doc.body.createDiv({ cls: "animated-cursor-color-probe" }),
+			pixel: canvas.getContext("2d", { willReadFrequently: true }),
+			cache: new Map()
+		});
+	}
+	return probe;
+}
+
+/**
+ * Resolve any CSS color or variable into its RGBA components, as computed
+ * by the browser. Unresolvable ones are reported, then taken as
+ * transparent.
+ *
+ * @param doc Document of the window the color is drawn in.
+ */
+export function resolveColor(value: string, doc: Document = document): RGBA {
+	let { el, pixel, cache } = getProbe(doc),
+		cached = cache.get(value);
+	if (cached) return cached;
+
+	el.style.color = "";
+	el.style.color = toCssValue(value);
+	let computed = el.style.color ? el.win.getComputedStyle(el).color : "",
+		color = computed ? parseRgb(computed) ?? readPixel(pixel, computed) : null;
+
+	if (!color) {
+		console.warn(`Animated Cursor: can't resolve the color "${value}", computed as "${computed}"`);
+		color = TRANSPARENT;
+	}
+	cache.set(value, color);
+	return color;
+}
+
+/**
+ * Forget every resolved color, e.g. after the theme or a CSS variable has
+ * changed.
+ */
+export function clearColorCache(): void {
+	probes.forEach(probe => probe.cache.clear());
+}
+
+/**
+ * Remove the probe element of the window, e.g. once it's been closed, or
+ * every one of them upon unloading.
+ */
+export function destroyColorProbe(doc?: Document): void {
+	for (let [probeDoc, probe] of probes) {
+		if (doc && probeDoc !== doc) continue;
+		probe.el.remove();
+		probes.delete(probeDoc);
+	}
+}
+
+export function isDarkMode(doc: Document = document): boolean {
+	return doc.body.hasClass("theme-dark");
+}
+
+/** Pick the CSS color of the current theme. */
+export function getThemeColor(config: ThemeColorConfig, doc: Document = document): string {
+	return isDarkMode(doc) && config.colorDark ? config.colorDark : config.color;
+}
+
+/** Resolve the color of the current theme. */
+export function resolveThemeColor(config: ThemeColorConfig, doc: Document = document): RGBA {
+	return resolveColor(getThemeColor(config, doc), doc);
+}
+
+/** Hex form of the color, ignoring its alpha, e.g. for a color picker. */
+export function toHexColor({ r, g, b }: RGBA): string {
+	return "#" + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, "0")).join("");
+}
+
+export function toCssColor({ r, g, b, a }: RGBA, alpha = 1): string {
+	return `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${a * alpha})`;
+}
+
+export function mixColors(from: RGBA, to: RGBA, t: number): RGBA {
+	return {
+		r: from.r + (to.r - from.r) * t,
+		g: from.g + (to.g - from.g) * t,
+		b: from.b + (to.b - from.b) * t,
+		a: from.a + (to.a - from.a) * t
+	};
+}
+
+/** Rotate the hue of the color, in degrees. */
+export function rotateHue(color: RGBA, degrees: number): RGBA {
+	// Rotation around the gray axis of the RGB cube.
+	let rad = degrees * Math.PI / 180,
+		cos = Math.cos(rad),
+		sin = Math.sin(rad),
+		k = (1 - cos) / 3,
+		s = Math.sqrt(1 / 3) * sin,
+		{ r, g, b, a } = color,
+		clamp = (v: number) => Math.min(Math.max(v, 0), 255);
+
+	return {
+		r: clamp(r * (cos + k) + g * (k - s) + b * (k + s)),
+		g: clamp(r * (k + s) + g * (cos + k) + b * (k - s)),
+		b: clamp(r * (k - s) + g * (k + s) + b * (cos + k)),
+		a
+	};
+}
+
+/**
+ * Colors of a trail-drawing effect, resolved for a single frame.
+ */
+export class Paint {
+	private readonly stops: RGBA[];
+	private readonly hueShift: number;
+	private readonly rainbow: boolean;
+
+	/**
+	 * @param time Current time in miliseconds, driving the hue cycle.
+	 * @param doc Document of the window it's drawn in.
+	 * @param color Color of the head, the one of the config by default.
+	 */
+	constructor(config: PaintConfig, time = Date.now(), doc: Document = document, color = resolveThemeColor(config, doc)) {
+		this.stops = [color, ...config.gradient.map(stop => resolveColor(stop, doc))];
+		this.rainbow = config.rainbow;
+		this.hueShift = config.rainbow && config.rainbowPeriod > 0
+			? (time % config.rainbowPeriod) / config.rainbowPeriod * 360
+			: 0;
+	}
+
+	/**
+	 * Color at the given point of the trail.
+	 *
+	 * @param t From 0 at the head to 1 at the end of the trail.
+	 */
+	at(t: number): RGBA {
+		let { stops } = this,
+			scaled = Math.min(Math.max(t, 0), 1) * (stops.length - 1),
+			index = Math.min(Math.floor(scaled), stops.length - 2),
+			color = stops.length > 1 ? mixColors(stops[index], stops[index + 1], scaled - index) : stops[0];
+
+		return this.rainbow ? rotateHue(color, this.hueShift + t * RAINBOW_TRAIL_SPREAD) : color;
+	}
+
+	/** CSS color at the given point of the trail. */
+	css(t: number, alpha = 1): string {
+		return toCssColor(this.at(t), alpha);
+	}
+
+	/** Whether it changes over time, thus needs redrawing. */
+	get animated(): boolean {
+		return this.rainbow;
+	}
+}
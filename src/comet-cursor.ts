@@ -1,41 +1,62 @@
-import { ViewPlugin } from "@codemirror/view";
-import { CursorEffectPlugin, CursorEffectConfig } from "src/cursor-effect";
+import { Setting } from "obsidian";
+import { DEFAULT_PAINT, PaintConfig, PAINT_SCHEMA } from "src/color";
+import { CursorEffectPlugin, CursorEffectConfig, EffectCursor } from "src/cursor-effect";
+import { CursorEffectSpec } from "src/effect-registry";
+import { SettingsSchema } from "src/settings-schema";
+import { DEFAULT_CURSOR_STYLE } from "src/cursor-marker";
+import { advanceMotion, DEFAULT_MOTION, FRAME_MS, MotionConfig, MOTION_SCHEMA } from "src/motion";
+import { addMotionSettings, addPaintSettings, addThemeColorSettings, addTrailLengthSetting } from "src/setting-tab";
 
-const COMET_CLASS = "comet-cursor-canvas";
 const COMET_ENABLED_CLASS = "comet-cursor-enabled";
 
-export interface CometCursorConfig extends CursorEffectConfig {
-	color: string;
+export interface CometCursorConfig extends CursorEffectConfig, PaintConfig {
+	/** Width of the trail at its tail, in pixels. */
 	width: number;
+	/** Trail lifetime, counted in 60 Hz frames. */
 	tailLength: number;
-	smoothness: number;
+	/** Glow of the trail, in pixels. */
+	trailGlow: number;
+	/** Glow of the head while moving, in pixels. */
+	headGlow: number;
+	/** Width of the head in the bar shape, null to follow the cursor's. */
+	headWidth: number | null;
+	motion: MotionConfig;
 }
 
-let config: CometCursorConfig = {
+const DEFAULT_CONFIG: CometCursorConfig = {
 	enabled: true,
-	color: "#9873f7",
+	...DEFAULT_PAINT,
+	color: "--interactive-accent",
 	width: 2,
-	tailLength: 12,
-	smoothness: 0.2
+	tailLength: 8,
+	trailGlow: 8,
+	headGlow: 10,
+	headWidth: null,
+	motion: { ...DEFAULT_MOTION }
 };
 
-export function updateCometConfig(newConfig: Partial<CometCursorConfig>): void {
-	Object.assign(config, newConfig);
-}
+const CONFIG_SCHEMA: SettingsSchema<CometCursorConfig> = {
+	...PAINT_SCHEMA,
+	width: { type: "number", min: 0.5, max: 20 },
+	tailLength: { type: "number", min: 1, max: 100 },
+	trailGlow: { type: "number", min: 0, max: 50 },
+	headGlow: { type: "number", min: 0, max: 50 },
+	headWidth: { type: "number", min: 1, max: 20, nullable: true },
+	motion: { type: "object", fields: MOTION_SCHEMA }
+};
 
-class CometCursorPlugin extends CursorEffectPlugin {
-	private trail: { x: number; y: number }[] = [];
+interface CometCursor extends EffectCursor {
+	trail: { x: number; y: number; age: number }[];
+}
 
-	getConfig(): CursorEffectConfig {
-		return config;
+class CometCursorPlugin extends CursorEffectPlugin<CometCursor, CometCursorConfig> {
+	protected createCursor(base: EffectCursor): CometCursor {
+		return { ...base, trail: [] };
 	}
 
 	protected enable(): void {
 		super.enable();
-		if (this.canvas) {
-			this.canvas.className = COMET_CLASS;
-			this.view.dom.classList.add(COMET_ENABLED_CLASS);
-		}
+		if (this.surface) this.view.dom.classList.add(COMET_ENABLED_CLASS);
 	}
 
 	protected disable(): void {
@@ -43,75 +64,140 @@ class CometCursorPlugin extends CursorEffectPlugin {
 		this.view.dom.classList.remove(COMET_ENABLED_CLASS);
 	}
 
-	protected onScrollChange(dx: number, dy: number): void {
-		for (const point of this.trail) {
-			point.x -= dx;
-			point.y -= dy;
-		}
+	protected needsFrame(): boolean {
+		return this.cursors.some(cursor => cursor.trail.length > 0) || (this.getConfig().rainbow && this.hasFocus);
 	}
 
-	private lerp(start: number, end: number, amt: number): number {
-		return (1 - amt) * start + amt * end;
+	render(ctx: CanvasRenderingContext2D, dt: number): void {
+		for (const cursor of this.cursors) {
+			ctx.globalAlpha = cursor.alpha * this.layerOpacity;
+			this.renderCursor(ctx, cursor, dt);
+		}
+		ctx.globalAlpha = 1;
 	}
 
-	render(ctx: CanvasRenderingContext2D): void {
-		if (Math.abs(this.targetX - this.currentX) < 0.1) this.currentX = this.targetX;
-		else this.currentX = this.lerp(this.currentX, this.targetX, config.smoothness);
+	private renderCursor(ctx: CanvasRenderingContext2D, cursor: CometCursor, dt: number): void {
+		const config = this.getConfig();
+		advanceMotion(cursor, dt, config.motion);
 
-		if (Math.abs(this.targetY - this.currentY) < 0.1) this.currentY = this.targetY;
-		else this.currentY = this.lerp(this.currentY, this.targetY, config.smoothness);
-
-		const dist = Math.hypot(this.targetX - this.currentX, this.targetY - this.currentY);
+		const dist = Math.hypot(cursor.targetX - cursor.currentX, cursor.targetY - cursor.currentY);
 		const isMoving = dist > 0.2;
 
 		if (isMoving) {
-			this.trail.push({ x: this.currentX, y: this.currentY });
-			if (this.trail.length > (config.tailLength || 12)) this.trail.shift();
-			this.drawTrail(ctx);
+			// Points expire by age, so the trail spans the same time at any
+			// frame rate.
+			const maxAge = (config.tailLength || 12) * FRAME_MS;
+			for (const point of cursor.trail) point.age += dt;
+			cursor.trail.push({ x: cursor.currentX, y: cursor.currentY, age: 0 });
+			while (cursor.trail.length && cursor.trail[0].age > maxAge) cursor.trail.shift();
+			this.drawTrail(ctx, cursor);
 		} else {
-			this.trail = [];
+			cursor.trail = [];
 		}
 
-		this.drawHead(ctx, isMoving);
+		this.drawHead(ctx, cursor, isMoving);
 	}
 
-	private drawTrail(ctx: CanvasRenderingContext2D): void {
-		if (this.trail.length < 2) return;
+	private drawTrail(ctx: CanvasRenderingContext2D, cursor: CometCursor): void {
+		const { trail } = cursor;
+		if (trail.length < 2) return;
+
+		const config = this.getConfig();
+		const paint = this.getPaint(config);
 
 		ctx.lineCap = "round";
 		ctx.lineJoin = "round";
-		ctx.shadowBlur = 8;
-		ctx.shadowColor = config.color;
+		ctx.shadowBlur = config.trailGlow;
+		ctx.shadowColor = paint.css(0);
 
-		for (let i = 0; i < this.trail.length - 1; i++) {
-			const p1 = this.trail[i];
-			const p2 = this.trail[i + 1];
-			const alpha = i / this.trail.length;
+		for (let i = 0; i < trail.length - 1; i++) {
+			const p1 = trail[i];
+			const p2 = trail[i + 1];
+			const alpha = i / trail.length;
 
 			ctx.beginPath();
 			ctx.moveTo(p1.x, p1.y);
 			ctx.lineTo(p2.x, p2.y);
 			ctx.lineWidth = config.width + alpha * 2;
-			ctx.strokeStyle = this.hexToRgba(config.color, alpha);
+			ctx.strokeStyle = paint.css(1 - (i + 1) / (trail.length - 1), alpha);
 			ctx.stroke();
 		}
 	}
 
-	private drawHead(ctx: CanvasRenderingContext2D, isMoving: boolean): void {
-		const height = Math.max(8, this.currentHeight || 24);
-
-		ctx.fillStyle = config.color;
-		ctx.shadowBlur = isMoving ? 10 : 0;
-		ctx.shadowColor = config.color;
-		ctx.fillRect(this.currentX - 1, this.currentY, 2, height);
-	}
+	private drawHead(ctx: CanvasRenderingContext2D, cursor: CometCursor, isMoving: boolean): void {
+		const height = Math.max(8, cursor.height || 24);
+		const config = this.getConfig();
+		const color = this.getPaint(config).css(0);
 
-	private hexToRgba(hex: string, alpha: number): string {
-		const r = parseInt(hex.slice(1, 3), 16);
-		const g = parseInt(hex.slice(3, 5), 16);
-		const b = parseInt(hex.slice(5, 7), 16);
-		return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+		ctx.fillStyle = color;
+		ctx.shadowBlur = isMoving ? config.headGlow : 0;
+		ctx.shadowColor = color;
+		this.fillHead(ctx, cursor, cursor.currentX, cursor.currentY, height, config.headWidth ?? undefined);
 	}
 }
 
-export const cometCursorPlugin = ViewPlugin.fromClass(CometCursorPlugin);
+export const cometCursorEffect: CursorEffectSpec<CometCursorConfig> = {
+	id: "comet",
+	name: "Comet Cursor",
+	effect: CometCursorPlugin,
+	defaultConfig: DEFAULT_CONFIG,
+	schema: CONFIG_SCHEMA,
+	buildSettings({ containerEl, config, defaults, reset, save, refresh }) {
+		addThemeColorSettings(containerEl, config, "Comet Color", "Trailing tail color.", save, reset);
+		addPaintSettings(containerEl, config, save, refresh, reset);
+		new Setting(containerEl)
+			.setName("Trail Width")
+			.setDesc("Width of the trail at its tail in pixels, it widens toward the head.")
+			.addExtraButton(reset("width"))
+			.addSlider(slider => slider
+				.setLimits(0.5, 10, 0.5)
+				.setValue(config.width)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.width = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Trail Glow")
+			.setDesc("Blur radius of the trail glow in pixels, 0 to turn it off.")
+			.addExtraButton(reset("trailGlow"))
+			.addSlider(slider => slider
+				.setLimits(0, 30, 1)
+				.setValue(config.trailGlow)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.trailGlow = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Head Glow")
+			.setDesc("Blur radius of the head glow while moving in pixels, 0 to turn it off.")
+			.addExtraButton(reset("headGlow"))
+			.addSlider(slider => slider
+				.setLimits(0, 30, 1)
+				.setValue(config.headGlow)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.headGlow = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Head Width")
+			.setDesc("Width of the head in the bar shape, in pixels. Restore the default to follow the cursor's bar width.")
+			.addExtraButton(reset("headWidth"))
+			.addSlider(slider => slider
+				.setLimits(1, 10, 1)
+				.setValue(config.headWidth ?? DEFAULT_CURSOR_STYLE.barWidth)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.headWidth = val;
+					save();
+				})
+			);
+		addMotionSettings(containerEl, config.motion, defaults.motion, save, refresh);
+		addTrailLengthSetting(containerEl, config, save, reset("tailLength"));
+	}
+};
@@ -1,49 +1,234 @@
 import { EditorView, ViewPlugin, ViewUpdate } from "@codemirror/view";
 import { PluginValue } from "@codemirror/view";
+import { editorInfoField } from "obsidian";
+import { getTableCellCm } from "src/patch";
+import { tableCellFocusChange } from "src/observer";
+import { getCursorRange, resolveCursorStyle, vimModeChange } from "src/vim";
+import { EffectCanvas, EffectLayer } from "src/effect-canvas";
+import { createMotionState, isSettled, MotionState } from "src/motion";
+import { BlinkConfig, BlinkState, DEFAULT_BLINK, getBlinkState } from "src/blink";
+import { getThemeColor, mixColors, Paint, PaintConfig, resolveColor, resolveThemeColor, RGBA } from "src/color";
+import {
+    ContextStyle,
+    DEFAULT_SYNTAX_CONTEXT,
+    getContextStyle,
+    SyntaxContextConfig,
+    withContextShape
+} from "src/syntax-context";
+import { DEFAULT_EDITOR_CONTEXT_MODES, EditorContextModes } from "src/editor-context";
+import {
+    CursorRect,
+    CursorStyle,
+    DEFAULT_CURSOR_STYLE,
+    getBaseCoords,
+    getCharWidth,
+    getCursorRect
+} from "src/cursor-marker";
 
 export interface CursorEffectConfig {
     enabled: boolean;
+    /** Opacity of the whole layer when stacked, 1 by default. */
+    opacity?: number;
+    /** Stacking order, effects with higher order are drawn on top. */
+    order?: number;
     [key: string]: any;
 }
 
-export abstract class CursorEffectPlugin implements PluginValue {
+/**
+ * A cursor tracked by the effect, one for each `SelectionRange` of the
+ * editor. Its coordinates are relative to the scroller's base, thus don't
+ * change upon scrolling.
+ */
+export interface EffectCursor extends MotionState {
+    /** Document position of the range head this cursor follows. */
+    pos: number;
+    height: number;
+    /** Width of the character under the cursor. */
+    charWidth: number;
+    /** Goes up to 1 after spawning, down to 0 after its range is removed. */
+    alpha: number;
+    primary: boolean;
+    /** Its range no longer exists, it fades out and then gets dropped. */
+    removed: boolean;
+}
+
+interface CursorTarget {
+    pos: number;
+    x: number;
+    y: number;
+    height: number;
+    charWidth: number;
+    primary: boolean;
+}
+
+/** Time taken by spawning and fading cursors, in miliseconds. */
+const CURSOR_FADE_DURATION = 110;
+
+/** Opacity of the block shape, letting the character under it show. */
+const BLOCK_ALPHA = 0.5;
+
+let cursorStyle: CursorStyle = DEFAULT_CURSOR_STYLE;
+
+/**
+ * Set the cursor appearance followed by the cursor head of every effect.
+ * The style is read live, mutating it afterwards takes effect on the next
+ * frame.
+ */
+export function setCursorStyle(style: CursorStyle): void {
+    cursorStyle = style;
+}
+
+let blinkConfig: BlinkConfig = DEFAULT_BLINK;
+
+/**
+ * Set the blink followed by the cursor head of every effect, read live as
+ * well.
+ */
+export function setBlinkConfig(config: BlinkConfig): void {
+    blinkConfig = config;
+}
+
+let editorContextModes: EditorContextModes = DEFAULT_EDITOR_CONTEXT_MODES;
+
+/**
+ * Set the mode of each editor context. Only the table cell one is read
+ * here, the others turn the whole effect off through its config.
+ */
+export function setEditorContextModes(modes: EditorContextModes): void {
+    editorContextModes = modes;
+}
+
+let syntaxContextConfig: SyntaxContextConfig = DEFAULT_SYNTAX_CONTEXT;
+
+/**
+ * Set the styles of the syntax contexts, taken by the cursor heads and
+ * trails of every effect. Read live as well.
+ */
+export function setSyntaxContextConfig(config: SyntaxContextConfig): void {
+    syntaxContextConfig = config;
+}
+
+/**
+ * Live effect instances grouped by their view, used to relay the table
+ * cell updates to the instances of the main view.
+ */
+const effectInstances = new Map<EditorView, Set<CursorEffectPlugin>>();
+
+/**
+ * Let every live effect pick up its config changes right away, instead of
+ * waiting for the next view update.
+ */
+export function refreshEffects(): void {
+    effectInstances.forEach(instances => {
+        instances.forEach(instance => instance.syncConfig());
+    });
+}
+
+/**
+ * Get the main `EditorView` if the given view is a nested one, e.g. the
+ * table cell's `EditorView`.
+ */
+function getHostView(view: EditorView): EditorView | undefined {
+    let editor = view.state.field(editorInfoField, false)?.editor;
+    if (editor?.cm && editor.cm !== view) return editor.cm;
+}
+
+export abstract class CursorEffectPlugin<
+    C extends EffectCursor = EffectCursor,
+    T extends CursorEffectConfig = CursorEffectConfig
+> implements PluginValue, EffectLayer {
     protected readonly view: EditorView;
-    protected canvas: HTMLCanvasElement | null = null;
-    protected ctx: CanvasRenderingContext2D | null = null;
-    private animationFrameId = 0;
+    private readonly configGetter: () => T;
+    /**
+     * View whose selection is currently drawn, either `view` itself or its
+     * table cell's `EditorView`.
+     */
+    protected sourceView: EditorView;
+    /** Canvas shared with the other effects of the view, while enabled. */
+    protected surface: EffectCanvas | null = null;
+    private wakeTimer = 0;
     private measurePending = false;
-    private needsResize = true;
     protected initialized = false;
     protected hasFocus = true;
-
-    protected targetX = 0;
-    protected targetY = 0;
-    protected currentX = 0;
-    protected currentY = 0;
-    protected currentHeight = 0;
-
-    private lastScrollTop = 0;
-    private lastScrollLeft = 0;
-
-    constructor(view: EditorView) {
+    /**
+     * Keeps the effect drawn while disabled, e.g. until a requested
+     * animation has played out. Reset upon disabling.
+     */
+    protected keepAlive = false;
+    /** Last time the drawn selection changed, where the blink restarts. */
+    private lastActivityTime = Date.now();
+    /** Blink state of the current frame, once any cursor head is drawn. */
+    private frameBlink: BlinkState | null = null;
+    /** Style of the syntax context under the main cursor, if any. */
+    private contextStyle: ContextStyle | null = null;
+    /**
+     * Color change between syntax contexts, as CSS colors resolved upon
+     * drawing. Null stands for the effect's own color.
+     */
+    private contextFade: { from: string | null; to: string | null; start: number } = {
+        from: null,
+        to: null,
+        start: 0
+    };
+
+    /**
+     * Tracked cursors, in document order. Removed ones stay here until
+     * they fade out.
+     */
+    protected cursors: C[] = [];
+
+    /**
+     * @param getConfig Returns the live config of the effect, provided by
+     * the effect registry.
+     */
+    constructor(view: EditorView, getConfig: () => T) {
         this.view = view;
-        this.lastScrollTop = this.view.scrollDOM.scrollTop;
-        this.lastScrollLeft = this.view.scrollDOM.scrollLeft;
+        this.configGetter = getConfig;
+        this.sourceView = view;
 
-        this.onScroll = this.onScroll.bind(this);
-        this.loop = this.loop.bind(this);
+        let instances = effectInstances.get(view);
+        if (!instances) effectInstances.set(view, instances = new Set());
+        instances.add(this);
 
-        if (this.getConfig().enabled) {
+        // Nested views are drawn by the main view's instance.
+        if (this.isEnabled() && !getHostView(view)) {
             this.enable();
         }
     }
 
-    abstract getConfig(): CursorEffectConfig;
+    getConfig(): T {
+        return this.configGetter();
+    }
+
+    /**
+     * Whether the effect should be drawn, per its config unless it's kept
+     * alive. Called by the constructor, so it only relies on the state of
+     * this class.
+     */
+    protected isEnabled(): boolean {
+        return this.getConfig().enabled || this.keepAlive;
+    }
+
+    /**
+     * Create a tracked cursor. Override it to attach per-cursor state, such
+     * as trail or ghosts.
+     */
+    protected abstract createCursor(base: EffectCursor): C;
 
     update(update: ViewUpdate): void {
-        if (this.getConfig().enabled) {
-            if (!this.canvas) this.enable();
-            if (update.geometryChanged) this.needsResize = true;
+        let hostView = getHostView(this.view);
+        if (hostView) {
+            effectInstances.get(hostView)?.forEach(instance => {
+                if (instance.constructor === this.constructor)
+                    instance.relayTableCellUpdate(update);
+            });
+            return;
+        }
+
+        if (this.isEnabled()) {
+            if (!this.surface) this.enable();
+            this.mapCursors(update);
+            this.trackActivity(update);
 
             this.onViewUpdate(update);
 
@@ -52,82 +237,90 @@ export abstract class CursorEffectPlugin implements PluginValue {
                 update.selectionSet ||
                 update.viewportChanged ||
                 update.geometryChanged ||
-                update.focusChanged
+                update.focusChanged ||
+                update.transactions.some(tr =>
+                    tr.annotation(tableCellFocusChange) !== undefined ||
+                    tr.annotation(vimModeChange) !== undefined
+                )
             ) {
                 this.scheduleMeasure();
             }
         } else {
-            if (this.canvas) this.disable();
+            if (this.surface) this.disable();
         }
     }
 
     destroy(): void {
+        const instances = effectInstances.get(this.view);
+        instances?.delete(this);
+        if (!instances?.size) effectInstances.delete(this.view);
         this.disable();
     }
 
-    protected enable(): void {
-        if (this.canvas) return;
-
-        this.view.dom.classList.add("animated-cursor-effect-enabled");
-        if (!this.view.dom.style.position)
-            this.view.dom.style.position = "relative";
-
-        this.canvas = document.createElement("canvas");
-        Object.assign(this.canvas.style, {
-            position: "absolute",
-            top: "0",
-            left: "0",
-            width: "100%",
-            height: "100%",
-            pointerEvents: "none",
-            zIndex: "100"
-        });
-
-        this.ctx = this.canvas.getContext("2d") as CanvasRenderingContext2D;
-        this.view.dom.appendChild(this.canvas);
-
-        this.view.scrollDOM.addEventListener("scroll", this.onScroll);
-
-        this.scheduleMeasure();
-        this.animationFrameId = requestAnimationFrame(this.loop);
+    /** Enable or disable the effect per its config, then redraw. */
+    syncConfig(): void {
+        if (getHostView(this.view)) return;
+        if (this.isEnabled()) this.enable();
+        else this.disable();
+        this.requestFrame();
     }
 
-    protected disable(): void {
-        if (this.animationFrameId) {
-            cancelAnimationFrame(this.animationFrameId);
-            this.animationFrameId = 0;
+    /**
+     * Handle an update coming from the table cell's `EditorView` nested in
+     * this view.
+     */
+    private relayTableCellUpdate(update: ViewUpdate): void {
+        if (!this.surface) return;
+        this.mapCursors(update);
+        this.trackActivity(update);
+        this.onViewUpdate(update);
+
+        if (
+            update.docChanged ||
+            update.selectionSet ||
+            update.geometryChanged ||
+            update.focusChanged
+        ) {
+            this.scheduleMeasure();
         }
-        if (this.canvas) {
-            this.view.scrollDOM.removeEventListener("scroll", this.onScroll);
-            this.canvas.remove();
-            this.canvas = null;
-            this.ctx = null;
-        }
-        this.view.dom.classList.remove("animated-cursor-effect-enabled");
     }
 
-    private onScroll(): void {
-        if (!this.initialized) return;
-
-        const scrollTop = this.view.scrollDOM.scrollTop;
-        const scrollLeft = this.view.scrollDOM.scrollLeft;
+    /** Map cursor positions through the changes of the drawn view. */
+    private mapCursors(update: ViewUpdate): void {
+        if (!update.docChanged || update.view !== this.sourceView) return;
+        for (const cursor of this.cursors) {
+            cursor.pos = update.changes.mapPos(cursor.pos);
+        }
+    }
 
-        const dy = scrollTop - this.lastScrollTop;
-        const dx = scrollLeft - this.lastScrollLeft;
+    /** Restart the blink upon typing, moving or focusing. */
+    private trackActivity(update: ViewUpdate): void {
+        if (update.docChanged || update.selectionSet || update.focusChanged)
+            this.lastActivityTime = Date.now();
+    }
 
-        this.lastScrollTop = scrollTop;
-        this.lastScrollLeft = scrollLeft;
+    protected enable(): void {
+        if (this.surface) return;
 
-        this.currentX -= dx;
-        this.currentY -= dy;
-        this.targetX -= dx;
-        this.targetY -= dy;
+        this.surface = EffectCanvas.acquire(this.view, this);
+        this.lastActivityTime = Date.now();
 
-        this.onScrollChange(dx, dy);
+        this.scheduleMeasure();
+        this.requestFrame();
     }
 
-    protected onScrollChange(dx: number, dy: number): void {
-        // Override in subclass
+    protected disable(): void {
+        if (this.wakeTimer) {
+            this.view.dom.win.clearTimeout(this.wakeTimer);
+            this.wakeTimer = 0;
+        }
+        if (this.surface) {
+            this.surface.release(this);
+            this.surface = null;
+        }
+        this.cursors = [];
+        this.initialized = false;
+        this.keepAlive = false;
     }
 
     protected onViewUpdate(update: ViewUpdate): void {
@@ -139,88 +332,343 @@ export abstract class CursorEffectPlugin implements PluginValue {
         this.measurePending = true;
         this.view.requestMeasure({
             read: view => {
-                const hasFocus = view.hasFocus;
-                let rect: DOMRect | null = null;
-                let coords: { x: number; y: number; height: number } | null = null;
-
-                if (this.needsResize || hasFocus) {
-                    rect = view.dom.getBoundingClientRect();
-                }
-
-                if (hasFocus) {
-                    const head = view.state.selection.main.head;
-                    const pos = view.coordsAtPos(head);
-                    if (pos && rect) {
-                        coords = {
-                            x: pos.left - rect.left,
-                            y: pos.top - rect.top,
-                            height: pos.bottom - pos.top
-                        };
+                // While a table cell is being edited, draw its selection
+                // in the main view's coordinates.
+                const tableCellView = view.hasFocus ? undefined : getTableCellCm(view.state);
+                const sourceView = tableCellView && tableCellView !== view && tableCellView.hasFocus
+                    ? tableCellView
+                    : view;
+                const hasFocus = sourceView.hasFocus;
+                let targets: CursorTarget[] | null = null;
+                let contextStyle = this.contextStyle;
+
+                // Table cells may leave their cursor to the native one,
+                // then the drawn cursors fade out.
+                if (sourceView !== view && editorContextModes.tableCell != "effects") {
+                    targets = [];
+                } else if (hasFocus) {
+                    const base = getBaseCoords(view);
+                    const { selection } = sourceView.state;
+                    contextStyle = getContextStyle(syntaxContextConfig, sourceView.state, selection.main.head);
+                    targets = [];
+                    for (const selRange of selection.ranges) {
+                        // Follows the Vim cursor in visual mode.
+                        const range = getCursorRange(cursorStyle, sourceView, selRange);
+                        const coords = sourceView.coordsAtPos(range.head, range.assoc || 1);
+                        if (!coords) continue;
+                        targets.push({
+                            pos: range.head,
+                            x: coords.left - base.left,
+                            y: coords.top - base.top,
+                            height: coords.bottom - coords.top,
+                            charWidth: getCharWidth(sourceView, range.head),
+                            primary: selRange == selection.main
+                        });
                     }
                 }
 
-                return { rect, coords, hasFocus };
+                return { targets, hasFocus, sourceView, contextStyle };
             },
             write: measure => {
                 this.measurePending = false;
                 this.hasFocus = measure.hasFocus;
+                this.setContextStyle(measure.contextStyle);
 
-                if (measure.rect) {
-                    this.resizeCanvas(measure.rect);
-                    this.needsResize = false;
-                }
+                // Anything measured may have moved, let the loop decide
+                // whether it settles again.
+                this.requestFrame();
 
-                if (measure.coords) {
-                    this.targetX = measure.coords.x;
-                    this.targetY = measure.coords.y;
-                    this.currentHeight = measure.coords.height;
-                    if (!this.initialized) {
-                        this.currentX = this.targetX;
-                        this.currentY = this.targetY;
-                        this.initialized = true;
-                        this.lastScrollTop = this.view.scrollDOM.scrollTop;
-                        this.lastScrollLeft = this.view.scrollDOM.scrollLeft;
-                    }
+                if (measure.targets) {
+                    this.sourceView = measure.sourceView;
+                    this.matchTargets(measure.targets);
+                    this.initialized = true;
                 }
             }
         });
     }
 
-    private resizeCanvas(rect: DOMRect): void {
-        if (!this.canvas) return;
-        const dpr = window.devicePixelRatio || 1;
-        const width = Math.max(1, Math.floor(rect.width * dpr));
-        const height = Math.max(1, Math.floor(rect.height * dpr));
-        if (this.canvas.width === width && this.canvas.height === height) return;
+    /**
+     * Assign measured targets to the tracked cursors. When the range count
+     * is unchanged, they are paired in document order. Otherwise, each
+     * target takes the nearest cursor by its (mapped) document position;
+     * the leftover targets spawn new cursors and the leftover cursors fade
+     * out.
+     */
+    private matchTargets(targets: CursorTarget[]): void {
+        const live = this.cursors.filter(cursor => !cursor.removed);
+        const assigned = new Map<CursorTarget, C>();
+
+        if (live.length == targets.length) {
+            targets.forEach((target, i) => assigned.set(target, live[i]));
+        } else {
+            const pairs: { target: CursorTarget; cursor: C; dist: number }[] = [];
+            for (const target of targets) for (const cursor of live) {
+                pairs.push({ target, cursor, dist: Math.abs(cursor.pos - target.pos) });
+            }
+            pairs.sort((a, b) => a.dist - b.dist);
+
+            const taken = new Set<C>();
+            for (const { target, cursor } of pairs) {
+                if (assigned.has(target) || taken.has(cursor)) continue;
+                assigned.set(target, cursor);
+                taken.add(cursor);
+            }
+        }
+
+        const matched = new Set(assigned.values());
+        for (const cursor of live) {
+            if (!matched.has(cursor)) cursor.removed = true;
+        }
+
+        for (const target of targets) {
+            let cursor = assigned.get(target);
+            if (!cursor) {
+                cursor = this.createCursor({
+                    ...createMotionState(target.x, target.y),
+                    pos: target.pos,
+                    height: target.height,
+                    charWidth: target.charWidth,
+                    // The very first cursors appear at once.
+                    alpha: this.initialized ? 0 : 1,
+                    primary: target.primary,
+                    removed: false
+                });
+                this.cursors.push(cursor);
+            }
+            cursor.pos = target.pos;
+            cursor.targetX = target.x;
+            cursor.targetY = target.y;
+            cursor.height = target.height;
+            cursor.charWidth = target.charWidth;
+            cursor.primary = target.primary;
+        }
+
+        this.cursors.sort((a, b) => a.pos - b.pos);
+    }
+
+    /** Start fading to the color of the new syntax context, if it changed. */
+    private setContextStyle(style: ContextStyle | null): void {
+        this.contextStyle = style;
+
+        const color = style && getThemeColor(style, this.view.dom.doc) || null;
+        const fade = this.contextFade;
+        if (color == fade.to) return;
+        this.contextFade = { from: fade.to, to: color, start: Date.now() };
+    }
+
+    /** Whether the color is still changing between syntax contexts. */
+    private get contextFading(): boolean {
+        return Date.now() - this.contextFade.start < syntaxContextConfig.transition;
+    }
+
+    /**
+     * Color of the cursor heads and trails, the one of the syntax context
+     * under the main cursor if it sets one.
+     *
+     * @param base Color of the effect.
+     */
+    protected getContextColor(base: RGBA): RGBA {
+        const { from, to, start } = this.contextFade;
+        const { transition } = syntaxContextConfig;
+        const progress = transition > 0 ? Math.min((Date.now() - start) / transition, 1) : 1;
+        const doc = this.view.dom.doc;
+        const fromColor = from ? resolveColor(from, doc) : base;
+        const toColor = to ? resolveColor(to, doc) : base;
+        return progress >= 1 ? toColor : mixColors(fromColor, toColor, progress);
+    }
+
+    /** Colors of this frame, taking the syntax context into account. */
+    protected getPaint(config: PaintConfig): Paint {
+        const doc = this.view.dom.doc;
+        return new Paint(config, Date.now(), doc, this.getContextColor(resolveThemeColor(config, doc)));
+    }
+
+    /** Advance spawning and fading cursors, dropping the faded ones. */
+    private stepCursorAlpha(dt: number): void {
+        const step = dt / CURSOR_FADE_DURATION;
+        for (let i = this.cursors.length - 1; i >= 0; i--) {
+            const cursor = this.cursors[i];
+            if (!cursor.removed) {
+                cursor.alpha = Math.min(1, cursor.alpha + step);
+                continue;
+            }
+            cursor.alpha -= step;
+            if (cursor.alpha <= 0) this.cursors.splice(i, 1);
+        }
+    }
+
+    /**
+     * Wake the loop up if it's sleeping. The loop keeps running until the
+     * cursors have settled and `needsFrame()` reports nothing to animate.
+     */
+    protected requestFrame(): void {
+        this.surface?.request();
+    }
 
-        this.canvas.width = width;
-        this.canvas.height = height;
-        this.canvas.style.width = `${rect.width}px`;
-        this.canvas.style.height = `${rect.height}px`;
-        this.ctx?.setTransform(dpr, 0, 0, dpr, 0, 0);
+    /**
+     * Wake the loop up after a delay, even if nothing moves, e.g. for the
+     * next blink phase. Replaces the previous pending wake-up.
+     */
+    protected wakeAfter(delay: number): void {
+        // Timers of the view's own window, which may be a popout.
+        let win = this.view.dom.win;
+        if (this.wakeTimer) win.clearTimeout(this.wakeTimer);
+        this.wakeTimer = win.setTimeout(() => {
+            this.wakeTimer = 0;
+            this.requestFrame();
+        }, delay);
     }
 
-    private loop(): void {
-        if (!this.canvas || !this.ctx) return;
-        const dpr = window.devicePixelRatio || 1;
-        const width = this.canvas.width / dpr;
-        const height = this.canvas.height / dpr;
+    /**
+     * Whether the effect still has something to animate, such as a trail
+     * or ghosts that haven't faded yet. Override in subclass.
+     */
+    protected needsFrame(): boolean {
+        return false;
+    }
+
+    /** Whether every cursor has settled on its target and fully appeared. */
+    private cursorsSettled(): boolean {
+        return this.cursors.every(cursor =>
+            !cursor.removed && cursor.alpha >= 1 && isSettled(cursor)
+        );
+    }
+
+    getOrder(): number {
+        return this.getConfig().order ?? 0;
+    }
+
+    /**
+     * Opacity of this layer. Subclasses must multiply every alpha they
+     * draw with by it.
+     */
+    protected get layerOpacity(): number {
+        return Math.min(Math.max(this.getConfig().opacity ?? 1, 0), 1);
+    }
 
-        this.ctx.clearRect(0, 0, width, height);
+    /**
+     * Cursor style applied to the drawn view, e.g. per its Vim mode or the
+     * syntax context.
+     */
+    private get cursorStyle(): CursorStyle {
+        return resolveCursorStyle(withContextShape(cursorStyle, this.contextStyle), this.sourceView);
+    }
+
+    /** Whether the cursor head is drawn hollow, while unfocused. */
+    protected get isHollow(): boolean {
+        const style = this.cursorStyle;
+        return style.hollowCursor && style.cursorShape == "block" && !this.hasFocus;
+    }
 
+    /** Opacity the cursor head is drawn with, in the chosen shape. */
+    protected get headAlpha(): number {
+        return this.cursorStyle.cursorShape == "block" && !this.isHollow ? BLOCK_ALPHA : 1;
+    }
 
-        if (this.hasFocus) {
-            this.render(this.ctx);
+    /**
+     * Blink followed by the cursor heads, the one of the native cursor by
+     * default. Override it to blink differently.
+     */
+    protected getBlinkConfig(): BlinkConfig {
+        return blinkConfig;
+    }
+
+    /**
+     * Blink state of the cursor heads in this frame, shared so all of them
+     * blink in unison. Unfocused editors hold a steady cursor.
+     */
+    protected get blink(): BlinkState {
+        this.frameBlink ??= this.hasFocus
+            ? getBlinkState(this.getBlinkConfig(), Date.now() - this.lastActivityTime)
+            : { opacity: 1, scale: 1, next: Infinity };
+        return this.frameBlink;
+    }
+
+    /** Shrink the rect about its middle, per the current blink. */
+    protected applyBlink(rect: CursorRect): CursorRect {
+        const { scale } = this.blink;
+        if (scale >= 1) return rect;
+        const height = rect.height * scale;
+        return { ...rect, top: rect.top + (rect.height - height) / 2, height };
+    }
+
+    /**
+     * Rect of the cursor head in the chosen cursor shape, placed at the
+     * given caret position.
+     *
+     * @param barWidth Width of the bar shape, the chosen one by default.
+     */
+    protected getHeadRect(
+        cursor: EffectCursor,
+        x: number,
+        y: number,
+        height = cursor.height,
+        barWidth?: number
+    ): CursorRect {
+        return getCursorRect(this.cursorStyle, x, y, height, cursor.charWidth, barWidth);
+    }
+
+    /**
+     * Draw the cursor head in the chosen cursor shape, with the current
+     * fill style. It blinks along with the native cursor.
+     *
+     * @param barWidth Width of the bar shape, the chosen one by default.
+     */
+    protected fillHead(
+        ctx: CanvasRenderingContext2D,
+        cursor: EffectCursor,
+        x: number,
+        y: number,
+        height = cursor.height,
+        barWidth?: number
+    ): void {
+        const { opacity } = this.blink;
+        if (opacity <= 0) return;
+
+        ctx.save();
+        ctx.globalAlpha *= opacity;
+        this.fillHeadRect(ctx, this.applyBlink(this.getHeadRect(cursor, x, y, height, barWidth)));
+        ctx.restore();
+    }
+
+    /**
+     * Draw the given rect as a cursor head, either hollow or filled, with
+     * the current fill style. Unlike `fillHead()`, it doesn't blink.
+     */
+    protected fillHeadRect(ctx: CanvasRenderingContext2D, rect: CursorRect): void {
+        ctx.save();
+        if (this.isHollow) {
+            ctx.strokeStyle = ctx.fillStyle;
+            ctx.lineWidth = 1;
+            ctx.strokeRect(rect.left + 0.5, rect.top + 0.5, rect.width - 1, rect.height - 1);
         } else {
-            // Still render if we have active ghosts? 
-            // Better to just render always if enabled.
-            // But if we want to respect focus for "active" cursor, maybe ghost trails should persist?
-            // Let's just render. The ghost logic handles its own empty check.
-            this.render(this.ctx);
+            ctx.globalAlpha *= this.headAlpha;
+            ctx.fillRect(rect.left, rect.top, rect.width, rect.height);
         }
+        ctx.restore();
+    }
+
+    readFrame(): void {
+        // Override in subclass
+    }
+
+    drawFrame(ctx: CanvasRenderingContext2D, dt: number): boolean {
+        this.stepCursorAlpha(dt);
+        this.render(ctx, dt);
+
+        // Only the effects drawing a cursor head wait for the blink.
+        const blink = this.frameBlink;
+        this.frameBlink = null;
+        const blinking = blink?.next === 0;
+        if (blink && !blinking && blink.next < Infinity) this.wakeAfter(blink.next + 1);
 
-        this.animationFrameId = requestAnimationFrame(this.loop);
+        return !this.cursorsSettled() || this.needsFrame() || blinking || this.contextFading;
     }
 
-    abstract render(ctx: CanvasRenderingContext2D): void;
+    /**
+     * Draw a frame.
+     *
+     * @param dt Time elapsed since the previous frame, in miliseconds.
+     */
+    abstract render(ctx: CanvasRenderingContext2D, dt: number): void;
 }
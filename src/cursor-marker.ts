@@ -1,6 +1,93 @@
-import { SelectionRange } from "@codemirror/state";
+import { findClusterBreak, SelectionRange } from "@codemirror/state";
 import { Direction, EditorView, LayerMarker } from "@codemirror/view";
 import { debounce } from "obsidian";
+import { toCssValue } from "src/color";
+
+export type CursorShape = "bar" | "block" | "underline";
+
+export const CURSOR_SHAPES: readonly CursorShape[] = ["bar", "block", "underline"];
+
+/**
+ * Cursor appearance, shared by the native cursor and the canvas effects.
+ */
+export interface CursorStyle {
+	cursorShape: CursorShape;
+	/** Width of the bar shape, in pixels. */
+	barWidth: number;
+	/** Draw the block shape hollow while the editor is unfocused. */
+	hollowCursor: boolean;
+	/** Switch the shape along with the Vim mode, while it's on. */
+	followVimMode: boolean;
+}
+
+export const DEFAULT_CURSOR_STYLE: CursorStyle = {
+	cursorShape: "bar",
+	barWidth: 2,
+	hollowCursor: true,
+	followVimMode: true
+};
+
+/** Options of `CursorMarker`. */
+export interface CursorMarkerOptions extends CursorStyle {
+	/** If true, use CSS property `transform` instead. */
+	useTransform: boolean;
+	/** CSS color or variable of the cursor, the theme's caret color if null. */
+	color?: string | null;
+}
+
+/** Thickness of the underline shape, in pixels. */
+const UNDERLINE_THICKNESS = 2;
+
+export interface CursorRect {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Get the width of the character after the position, falling back to the
+ * default character width at the line end.
+ */
+export function getCharWidth(view: EditorView, pos: number): number {
+	let line = view.state.doc.lineAt(pos);
+	if (pos < line.to) {
+		let next = line.from + findClusterBreak(line.text, pos - line.from),
+			start = view.coordsAtPos(pos, 1),
+			end = view.coordsAtPos(next, -1);
+		// Not measurable if the character is wrapped.
+		if (start && end && start.top == end.top && end.left != start.left)
+			return Math.abs(end.left - start.left);
+	}
+	return view.defaultCharacterWidth;
+}
+
+/**
+ * Get the rect of the cursor in the given shape, out of its caret
+ * position.
+ * 
+ * @param charWidth Width of the character under the cursor.
+ * @param barWidth Width of the bar shape, the style's one by default.
+ */
+export function getCursorRect(
+	style: CursorStyle,
+	left: number,
+	top: number,
+	height: number,
+	charWidth: number,
+	barWidth = style.barWidth
+): CursorRect {
+	switch (style.cursorShape) {
+		case "block": return { left, top, width: charWidth, height };
+		case "underline": return {
+			left,
+			top: top + height - UNDERLINE_THICKNESS,
+			width: charWidth,
+			height: UNDERLINE_THICKNESS
+		};
+		default: return { left: left - barWidth / 2, top, width: barWidth, height };
+	}
+}
 
 /**
  * Get scroller top and left position. Based on CodeMirror's `getBase()`
@@ -11,7 +98,7 @@ import { debounce } from "obsidian";
  * 
  * @see https://github.com/codemirror/view/blob/main/src/layer.ts
  */
-function getBaseCoords(view: EditorView): { top: number, left: number } {
+export function getBaseCoords(view: EditorView): { top: number, left: number } {
 	let scrollerRect = view.scrollDOM.getBoundingClientRect(),
 		left = view.textDirection == Direction.LTR
 			? scrollerRect.left
@@ -36,19 +123,23 @@ function getBaseCoords(view: EditorView): { top: number, left: number } {
 export default class CursorMarker implements LayerMarker {
 	public readonly className: string;
 	public readonly useTransform: boolean;
+	public readonly color: string | null;
 
 	public readonly left: number;
 	public readonly top: number;
+	public readonly width: number;
 	public readonly height: number;
 
-	constructor(className: string, left: number, top: number, height: number, useTransform: boolean) {
+	constructor(className: string, rect: CursorRect, useTransform: boolean, color: string | null = null) {
 		this.className = className;
-		// Round the position and the height avoiding using new marker upon mere
-		// fractional difference.
-		this.left = Math.round(left);
-		this.top = Math.round(top);
-		this.height = Math.round(height);
+		// Round the dimension avoiding using new marker upon mere fractional
+		// difference.
+		this.left = Math.round(rect.left);
+		this.top = Math.round(rect.top);
+		this.width = Math.max(Math.round(rect.width), 1);
+		this.height = Math.round(rect.height);
 		this.useTransform = useTransform;
+		this.color = color;
 	}
 
 	public draw(): HTMLElement {
@@ -74,9 +165,11 @@ export default class CursorMarker implements LayerMarker {
 		return (
 			this.left == other.left &&
 			this.top == other.top &&
+			this.width == other.width &&
 			this.height == other.height &&
 			this.className == other.className &&
-			this.useTransform == other.useTransform
+			this.useTransform == other.useTransform &&
+			this.color == other.color
 		);
 	}
 
@@ -86,19 +179,9 @@ export default class CursorMarker implements LayerMarker {
 	 * position.
 	 * 
 	 * @param range `SelectionRange` that will be calculated and drawn.
-	 * @param useTransform If true, use CSS property `transform` instead.
 	 */
-	public static forRange(view: EditorView, className: string, range: SelectionRange, useTransform: boolean): CursorMarker | null {
-		let cursorPos = view.coordsAtPos(range.head, range.assoc || 1);
-		if (!cursorPos) return null;
-		let baseCoords = getBaseCoords(view);
-		return new CursorMarker(
-			className,
-			cursorPos.left - baseCoords.left,
-			cursorPos.top - baseCoords.top,
-			cursorPos.bottom - cursorPos.top,
-			useTransform
-		);
+	public static forRange(view: EditorView, className: string, range: SelectionRange, options: CursorMarkerOptions): CursorMarker | null {
+		return CursorMarker.create(view, view, className, range, options);
 	}
 
 	/**
@@ -106,7 +189,6 @@ export default class CursorMarker implements LayerMarker {
 	 * coordinates and `tableCellView` to get the `range` coords.
 	 * 
 	 * @param range `SelectionRange` that will be calculated and drawn.
-	 * @param useTransform If true, use CSS property `transform` instead.
 	 * 
 	 * @remarks _Table cell use case only._
 	 */
@@ -115,17 +197,38 @@ export default class CursorMarker implements LayerMarker {
 		tableCellView: EditorView,
 		className: string,
 		range: SelectionRange,
-		useTransform: boolean
+		options: CursorMarkerOptions
 	): CursorMarker | null {
-		let cursorPos = tableCellView.coordsAtPos(range.head, range.assoc || 1);
+		return CursorMarker.create(baseView, tableCellView, className, range, options);
+	}
+
+	/**
+	 * Create a marker in the shape set by `options`, measuring the `range`
+	 * in `view` relative to `baseView`.
+	 */
+	private static create(
+		baseView: EditorView,
+		view: EditorView,
+		className: string,
+		range: SelectionRange,
+		options: CursorMarkerOptions
+	): CursorMarker | null {
+		let cursorPos = view.coordsAtPos(range.head, range.assoc || 1);
 		if (!cursorPos) return null;
-		let baseCoords = getBaseCoords(baseView);
+		let baseCoords = getBaseCoords(baseView),
+			// Block and underline take the width of the character under.
+			charWidth = options.cursorShape == "bar" ? 0 : getCharWidth(view, range.head);
 		return new CursorMarker(
-			className,
-			cursorPos.left - baseCoords.left,
-			cursorPos.top - baseCoords.top,
-			cursorPos.bottom - cursorPos.top,
-			useTransform
+			`${className} cm-cursorShape-${options.cursorShape}`,
+			getCursorRect(
+				options,
+				cursorPos.left - baseCoords.left,
+				cursorPos.top - baseCoords.top,
+				cursorPos.bottom - cursorPos.top,
+				charWidth
+			),
+			options.useTransform,
+			options.color
 		);
 	}
 
@@ -135,7 +238,7 @@ export default class CursorMarker implements LayerMarker {
 	 */
 	private adjust = (cursorEl: HTMLElement): void => {
 		// Hack to smooth the movement and remove jittering
-		requestAnimationFrame(() => {
+		cursorEl.win.requestAnimationFrame(() => {
 			if (this.useTransform) cursorEl.setCssStyles({
 				transform: `translateX(${this.left}px) translateY(${this.top}px)`
 			});
@@ -144,7 +247,14 @@ export default class CursorMarker implements LayerMarker {
 				top: this.top + "px"
 			});
 	
-			cursorEl.setCssStyles({ height: this.height + "px" });
+			cursorEl.setCssStyles({
+				width: this.width + "px",
+				height: this.height + "px"
+			});
+
+			// Transitions along with the movement, see `styles.css`.
+			if (this.color) cursorEl.style.setProperty("--caret-color", toCssValue(this.color));
+			else cursorEl.style.removeProperty("--caret-color");
 		})
 	}
 
@@ -0,0 +1,195 @@
+import { EditorView } from "@codemirror/view";
+import { Setting } from "obsidian";
+import { DEFAULT_PAINT, resolveThemeColor, ThemeColorConfig, THEME_COLOR_SCHEMA, toCssColor } from "src/color";
+import { CursorEffectPlugin, CursorEffectConfig, EffectCursor } from "src/cursor-effect";
+import { CursorEffectSpec } from "src/effect-registry";
+import { SettingsSchema } from "src/settings-schema";
+import { getBaseCoords } from "src/cursor-marker";
+import { advanceMotion, DEFAULT_MOTION } from "src/motion";
+import { addThemeColorSettings } from "src/setting-tab";
+
+/** Size of the arrow, in pixels. */
+const ARROW_SIZE = 10;
+
+/** Gap between the arrow and the viewport edge, in pixels. */
+const EDGE_MARGIN = 6;
+
+/** Clicks this close to the arrow count as clicking it, in pixels. */
+const HIT_RADIUS = 18;
+
+export interface EdgeIndicatorConfig extends CursorEffectConfig, ThemeColorConfig {
+	/** Show how many lines away the cursor is. */
+	showDistance: boolean;
+}
+
+const DEFAULT_CONFIG: EdgeIndicatorConfig = {
+	enabled: false,
+	color: "--interactive-accent",
+	colorDark: DEFAULT_PAINT.colorDark,
+	showDistance: true
+};
+
+const CONFIG_SCHEMA: SettingsSchema<EdgeIndicatorConfig> = {
+	...THEME_COLOR_SCHEMA,
+	showDistance: { type: "boolean" }
+};
+
+interface Indicator {
+	/** Tip of the arrow, in document coordinates. */
+	x: number;
+	y: number;
+	/** Whether the cursor is above the viewport. */
+	above: boolean;
+	/** Lines between the cursor and the viewport edge. */
+	distance: number;
+}
+
+/**
+ * Points out the primary cursor while it's scrolled out of view, with an
+ * arrow clamped to the nearest viewport edge. Clicking the arrow scrolls
+ * the cursor back into view.
+ *
+ * Draws over the cursor of the other effects, or the native one.
+ */
+class EdgeIndicatorPlugin extends CursorEffectPlugin<EffectCursor, EdgeIndicatorConfig> implements EventListenerObject {
+	private indicator: Indicator | null = null;
+	private font = "";
+
+	protected createCursor(base: EffectCursor): EffectCursor {
+		return base;
+	}
+
+	protected enable(): void {
+		if (this.surface) return;
+		super.enable();
+		// Run before CodeMirror moves the selection. Listens through
+		// `handleEvent()`, as the base constructor may enable it already.
+		this.view.scrollDOM.addEventListener("mousedown", this, true);
+	}
+
+	protected disable(): void {
+		super.disable();
+		this.view.scrollDOM.removeEventListener("mousedown", this, true);
+		this.indicator = null;
+	}
+
+	/** Scroll the cursor into view upon clicking the indicator. */
+	handleEvent(evt: MouseEvent): void {
+		const { indicator } = this;
+		if (!indicator || evt.button != 0) return;
+
+		const base = getBaseCoords(this.view);
+		const x = evt.clientX - base.left;
+		const y = evt.clientY - base.top;
+		if (Math.hypot(x - indicator.x, y - indicator.y) > HIT_RADIUS) return;
+
+		evt.preventDefault();
+		evt.stopPropagation();
+		this.view.dispatch({
+			effects: EditorView.scrollIntoView(this.view.state.selection.main.head, { y: "center" })
+		});
+		this.view.focus();
+	}
+
+	readFrame(): void {
+		this.indicator = null;
+
+		// The table cell being edited is never far from the view.
+		const { view } = this;
+		if (!view.hasFocus || this.sourceView !== view) return;
+
+		const { scrollDOM } = view;
+		const base = getBaseCoords(view);
+		// Top of the document, in document coordinates.
+		const docTop = view.documentTop - base.top;
+		const viewTop = scrollDOM.scrollTop;
+		const viewBottom = viewTop + scrollDOM.clientHeight;
+
+		const head = view.state.selection.main.head;
+		const block = view.lineBlockAt(head);
+		const above = docTop + block.bottom <= viewTop;
+		const below = docTop + block.top >= viewBottom;
+		if (!above && !below) return;
+
+		// Horizontal position is only known near the viewport.
+		const coords = view.coordsAtPos(head);
+		const contentRect = view.contentDOM.getBoundingClientRect();
+		const x = coords ? coords.left - base.left : contentRect.left - base.left + contentRect.width / 2;
+
+		const edgeBlock = view.lineBlockAtHeight((above ? viewTop : viewBottom - 1) - docTop);
+		const line = view.state.doc.lineAt(head).number;
+		const edgeLine = view.state.doc.lineAt(edgeBlock.from).number;
+
+		this.indicator = {
+			x: Math.min(Math.max(x, scrollDOM.scrollLeft + HIT_RADIUS), scrollDOM.scrollLeft + scrollDOM.clientWidth - HIT_RADIUS),
+			y: above ? viewTop + EDGE_MARGIN : viewBottom - EDGE_MARGIN,
+			above,
+			distance: Math.abs(edgeLine - line)
+		};
+
+		if (this.getConfig().showDistance) {
+			const style = view.contentDOM.win.getComputedStyle(view.contentDOM);
+			this.font = `${style.fontSize} ${style.fontFamily}`;
+		}
+	}
+
+	render(ctx: CanvasRenderingContext2D, dt: number): void {
+		// The indicator only draws, the cursors still have to settle.
+		for (const cursor of this.cursors) advanceMotion(cursor, dt, DEFAULT_MOTION);
+
+		const { indicator } = this;
+		if (!indicator) return;
+
+		const config = this.getConfig();
+		const { x, y, above } = indicator;
+		const direction = above ? 1 : -1;
+
+		ctx.globalAlpha = this.layerOpacity;
+		const color = toCssColor(resolveThemeColor(config, this.view.dom.doc));
+		ctx.fillStyle = color;
+		ctx.shadowColor = color;
+		ctx.shadowBlur = 10;
+
+		ctx.beginPath();
+		ctx.moveTo(x, y);
+		ctx.lineTo(x - ARROW_SIZE, y + ARROW_SIZE * direction);
+		ctx.lineTo(x + ARROW_SIZE, y + ARROW_SIZE * direction);
+		ctx.closePath();
+		ctx.fill();
+
+		if (config.showDistance && indicator.distance > 0) {
+			ctx.shadowBlur = 0;
+			ctx.font = this.font;
+			ctx.textAlign = "center";
+			ctx.textBaseline = above ? "top" : "bottom";
+			ctx.fillText(
+				`${indicator.distance} ${indicator.distance == 1 ? "line" : "lines"}`,
+				x, y + (ARROW_SIZE + 4) * direction
+			);
+		}
+		ctx.globalAlpha = 1;
+	}
+}
+
+export const edgeIndicatorEffect: CursorEffectSpec<EdgeIndicatorConfig> = {
+	id: "edge-indicator",
+	name: "Off-screen Indicator",
+	effect: EdgeIndicatorPlugin,
+	defaultConfig: DEFAULT_CONFIG,
+	schema: CONFIG_SCHEMA,
+	overlay: true,
+	buildSettings({ containerEl, config, reset, save }) {
+		addThemeColorSettings(containerEl, config, "Indicator Color", "Color of the arrow and its distance.", save, reset);
+		new Setting(containerEl)
+			.setName("Show Distance")
+			.setDesc("Show how many lines away the cursor is.")
+			.addExtraButton(reset("showDistance"))
+			.addToggle(toggle => toggle
+				.setValue(config.showDistance)
+				.onChange(val => {
+					config.showDistance = val;
+					save();
+				})
+			);
+	}
+};
@@ -0,0 +1,54 @@
+import { EditorView } from "@codemirror/view";
+import { editorInfoField, editorLivePreviewField } from "obsidian";
+import { SettingsSchema } from "src/settings-schema";
+
+/**
+ * Where an editor lives. The table cell is the one nested in a table of
+ * any of the others.
+ */
+export type EditorContext = "livePreview" | "source" | "canvas" | "popover" | "embed" | "tableCell";
+
+export const EDITOR_CONTEXTS: readonly EditorContext[] = ["livePreview", "source", "canvas", "popover", "embed", "tableCell"];
+
+/**
+ * - `effects`: the canvas effects, along with the animated cursor where
+ *   none of them replaces it.
+ * - `native`: the animated cursor only.
+ * - `off`: a plain cursor, neither moving smoothly nor drawing effects.
+ */
+export type EditorContextMode = "effects" | "native" | "off";
+
+export const EDITOR_CONTEXT_MODES: readonly EditorContextMode[] = ["effects", "native", "off"];
+
+export type EditorContextModes = Record<EditorContext, EditorContextMode>;
+
+export const DEFAULT_EDITOR_CONTEXT_MODES: EditorContextModes = {
+	livePreview: "effects",
+	source: "effects",
+	canvas: "effects",
+	popover: "effects",
+	embed: "effects",
+	tableCell: "effects"
+};
+
+export const EDITOR_CONTEXT_MODES_SCHEMA: SettingsSchema<EditorContextModes> = Object.fromEntries(
+	EDITOR_CONTEXTS.map(context => [context, { type: "enum", values: EDITOR_CONTEXT_MODES }])
+);
+
+/** Whether the view is nested in another one, i.e. a table cell. */
+export function isNestedView(view: EditorView): boolean {
+	let editor = view.state.field(editorInfoField, false)?.editor;
+	return !!editor?.cm && editor.cm !== view;
+}
+
+/**
+ * Get the context of the view, out of its place in the DOM. Canvas cards,
+ * hover popovers and embeds take precedence over the editing mode.
+ */
+export function getEditorContext(view: EditorView): EditorContext {
+	if (isNestedView(view)) return "tableCell";
+	if (view.dom.closest(".canvas-node")) return "canvas";
+	if (view.dom.closest(".hover-popover")) return "popover";
+	if (view.dom.closest(".markdown-embed")) return "embed";
+	return view.state.field(editorLivePreviewField, false) === false ? "source" : "livePreview";
+}
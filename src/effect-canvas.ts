@@ -0,0 +1,190 @@
+import { EditorView, layer } from "@codemirror/view";
+import { FrameScheduler, FrameSubscriber } from "src/frame-scheduler";
+import { clampTimeStep } from "src/motion";
+
+/** Layer elements mounted by `effectLayer`, keyed by their view. */
+const layerDoms = new WeakMap<EditorView, HTMLElement>();
+
+/**
+ * CodeMirror layer that holds the effect canvas. It scrolls along with the
+ * content, gets clipped by the scroller, and sits under the gutters,
+ * panels and tooltips. Has no markers on its own.
+ */
+export const effectLayer = layer({
+	above: true,
+	class: "cm-effectLayer",
+	updateOnDocViewUpdate: false,
+	markers: () => [],
+	update: () => false,
+	mount: (dom, view) => layerDoms.set(view, dom)
+});
+
+let frameScheduler: FrameScheduler | null = null;
+
+/**
+ * Set the scheduler that drives every effect canvas. Effects don't
+ * animate without one.
+ */
+export function setFrameScheduler(scheduler: FrameScheduler | null): void {
+	frameScheduler = scheduler;
+}
+
+/**
+ * A single effect drawn into the shared canvas, e.g. an instance of
+ * `CursorEffectPlugin`. It draws in document coordinates, relative to the
+ * scroller's base, so scrolling never moves what has been drawn.
+ */
+export interface EffectLayer {
+	/** Layers are drawn in ascending order, the last one on top. */
+	getOrder(): number;
+	readFrame(): void;
+	/**
+	 * Draw the layer. The canvas has been cleared beforehand.
+	 *
+	 * @param dt Time elapsed since the previous frame, in miliseconds.
+	 * @returns True if it needs another frame.
+	 */
+	drawFrame(ctx: CanvasRenderingContext2D, dt: number): boolean;
+}
+
+const canvases = new WeakMap<EditorView, EffectCanvas>();
+
+/**
+ * Canvas shared by every effect layer of an editor. It only exists while
+ * at least one layer is attached.
+ *
+ * The canvas covers only the visible part of the scroller. It's moved to
+ * the current scroll offset on each frame, while in between, it scrolls
+ * natively with the content.
+ */
+export class EffectCanvas implements FrameSubscriber {
+	public readonly view: EditorView;
+	public readonly canvas: HTMLCanvasElement;
+	public readonly ctx: CanvasRenderingContext2D;
+
+	private layers = new Set<EffectLayer>();
+	private dpr = 1;
+	/** Visible area of the scroller, in document coordinates. */
+	private scrollTop = 0;
+	private scrollLeft = 0;
+	private width = 0;
+	private height = 0;
+	/** Timestamp of the last drawn frame, 0 while sleeping. */
+	private lastFrameTime = 0;
+
+	private constructor(view: EditorView) {
+		this.view = view;
+		this.onScroll = this.onScroll.bind(this);
+
+		view.dom.classList.add("animated-cursor-effect-enabled");
+
+		// Created in the view's own document, which may be a popout window.
+		this.canvas = view.dom.doc.createElement("canvas");
+		this.canvas.className = "animated-cursor-canvas";
+		this.ctx = this.canvas.getContext("2d") as CanvasRenderingContext2D;
+
+		// Fall back to the scroller if the layer hasn't been mounted yet.
+		(layerDoms.get(view) ?? view.scrollDOM).appendChild(this.canvas);
+		view.scrollDOM.addEventListener("scroll", this.onScroll, { passive: true });
+	}
+
+	/**
+	 * Attach the layer to the view's canvas, creating the canvas if it
+	 * doesn't exist yet.
+	 */
+	public static acquire(view: EditorView, layer: EffectLayer): EffectCanvas {
+		let effectCanvas = canvases.get(view);
+		if (!effectCanvas) canvases.set(view, effectCanvas = new EffectCanvas(view));
+		effectCanvas.layers.add(layer);
+		return effectCanvas;
+	}
+
+	/**
+	 * Detach the layer from its canvas. The canvas is removed along with
+	 * its last layer, otherwise it's redrawn without the layer.
+	 */
+	public release(layer: EffectLayer): void {
+		if (!this.layers.delete(layer)) return;
+		if (this.layers.size) {
+			this.request();
+			return;
+		}
+
+		frameScheduler?.cancel(this);
+		this.view.scrollDOM.removeEventListener("scroll", this.onScroll);
+		this.canvas.remove();
+		this.view.dom.classList.remove("animated-cursor-effect-enabled");
+		canvases.delete(this.view);
+	}
+
+	/** Request a frame, redrawing every layer. */
+	public request(): void {
+		frameScheduler?.request(this);
+	}
+
+	private onScroll(): void {
+		// Newly exposed area needs to be drawn.
+		this.request();
+	}
+
+	/** Window of the view, whose animation frames it follows. */
+	public getWindow(): Window {
+		return this.view.dom.win;
+	}
+
+	/** Only visible editors are worth a frame. */
+	public isActive(): boolean {
+		return this.layers.size > 0 && this.view.dom.isConnected && this.view.inView;
+	}
+
+	public readFrame(): void {
+		let { scrollDOM } = this.view;
+		// Each window has its own pixel ratio, e.g. on another screen.
+		this.dpr = this.view.dom.win.devicePixelRatio || 1;
+		this.scrollTop = scrollDOM.scrollTop;
+		this.scrollLeft = scrollDOM.scrollLeft;
+		this.width = scrollDOM.clientWidth;
+		this.height = scrollDOM.clientHeight;
+		for (let layer of this.layers) layer.readFrame();
+	}
+
+	public drawFrame(time: number): boolean {
+		const dt = clampTimeStep(this.lastFrameTime ? time - this.lastFrameTime : 0);
+		let awake = false;
+
+		this.place();
+
+		const ordered = Array.from(this.layers).sort((a, b) => a.getOrder() - b.getOrder());
+		for (let layer of ordered) {
+			this.ctx.save();
+			if (layer.drawFrame(this.ctx, dt)) awake = true;
+			this.ctx.restore();
+		}
+
+		// Go to sleep with the last frame left on the canvas.
+		this.lastFrameTime = awake ? time : 0;
+		return awake;
+	}
+
+	/**
+	 * Move and resize the canvas over the visible area, then clear it and
+	 * map the document coordinates to it.
+	 */
+	private place(): void {
+		const { canvas, ctx, dpr } = this;
+		const width = Math.max(1, Math.floor(this.width * dpr));
+		const height = Math.max(1, Math.floor(this.height * dpr));
+
+		if (canvas.width !== width || canvas.height !== height) {
+			canvas.width = width;
+			canvas.height = height;
+			canvas.style.width = `${this.width}px`;
+			canvas.style.height = `${this.height}px`;
+		}
+		canvas.style.transform = `translate(${this.scrollLeft}px, ${this.scrollTop}px)`;
+
+		ctx.setTransform(1, 0, 0, 1, 0, 0);
+		ctx.clearRect(0, 0, width, height);
+		ctx.setTransform(dpr, 0, 0, dpr, -this.scrollLeft * dpr, -this.scrollTop * dpr);
+	}
+}
@@ -0,0 +1,325 @@
+import { Extension } from "@codemirror/state";
+import { EditorView, ViewPlugin } from "@codemirror/view";
+import { editorLivePreviewField, ExtraButtonComponent, Workspace } from "obsidian";
+import { CursorEffectConfig, CursorEffectPlugin } from "src/cursor-effect";
+import { EffectRules } from "src/effect-rules";
+import { isNestedView } from "src/editor-context";
+import { SettingsIssue, SettingsSchema, validateSettings } from "src/settings-schema";
+
+/**
+ * Constructor of a `CursorEffectPlugin` subclass. The config getter always
+ * returns the live, persisted config of the effect, with `enabled`
+ * resolved for the view per the effect rules.
+ */
+export type CursorEffectClass<T extends CursorEffectConfig = CursorEffectConfig> =
+	new (view: EditorView, getConfig: () => T) => CursorEffectPlugin;
+
+/**
+ * Passed to the settings-UI builder of an effect.
+ */
+export interface EffectSettingsContext<T extends CursorEffectConfig = CursorEffectConfig> {
+	containerEl: HTMLElement;
+	/** Live config of the effect, mutate it then call `save()`. */
+	config: T;
+	/** Default config of the effect. */
+	defaults: T;
+	/**
+	 * Build a button restoring the given field to its default, passed to
+	 * `Setting.addExtraButton()`.
+	 */
+	reset(key: keyof T): (button: ExtraButtonComponent) => void;
+	save(): Promise<void>;
+	/** Redraw the whole setting tab, e.g. after showing or hiding options. */
+	refresh(): void;
+}
+
+export interface CursorEffectSpec<T extends CursorEffectConfig = CursorEffectConfig> {
+	/** Unique id, used as the key of its persisted config. */
+	id: string;
+	/** Display name shown in the settings. */
+	name: string;
+	effect: CursorEffectClass<T>;
+	/** Fills in any key missing from the persisted config. */
+	defaultConfig: T;
+	/**
+	 * Validates the persisted config upon registering, along with the
+	 * fields shared by every effect. Invalid fields fall back to their
+	 * default.
+	 */
+	schema?: SettingsSchema<T>;
+	/**
+	 * Whether it draws over the cursor instead of replacing it, so the
+	 * native cursor stays visible. Pass a function if it depends on the
+	 * config, e.g. an option to draw its own caret.
+	 */
+	overlay?: boolean | ((config: T) => boolean);
+	/**
+	 * Additional editor extension installed along with the effect, e.g.
+	 * decorations. It should do nothing while the effect is disabled.
+	 *
+	 * @param getConfig Pass the view to get `enabled` resolved for it per
+	 * the effect rules.
+	 */
+	extension?(getConfig: (view?: EditorView) => T): Extension;
+	/** Build the effect's own options in the setting tab. */
+	buildSettings?(context: EffectSettingsContext<T>): void;
+}
+
+interface RegisteredEffect {
+	spec: CursorEffectSpec;
+	plugin: ViewPlugin<CursorEffectPlugin>;
+	extension: Extension;
+}
+
+/** Set on the editors where an enabled effect replaces the native cursor. */
+const CURSOR_REPLACED_CLASS = "animated-cursor-replaced";
+/** Set on the editors whose context turns the animation off. */
+const STATIC_CURSOR_CLASS = "animated-cursor-static";
+/**
+ * Set on the editors whose table cells leave their cursor to the native
+ * one, either animated or not.
+ */
+const TABLE_CELL_NATIVE_CLASS = "animated-cursor-table-cell-native";
+const TABLE_CELL_STATIC_CLASS = "animated-cursor-table-cell-static";
+
+/** Schema of the fields shared by every effect. */
+const EFFECT_SCHEMA: SettingsSchema<CursorEffectConfig> = {
+	enabled: { type: "boolean" },
+	opacity: { type: "number", min: 0, max: 1 },
+	order: { type: "number" }
+};
+
+/**
+ * Keeps every available cursor effect, built-in or provided by other
+ * plugins, along with its editor extension and persisted config.
+ *
+ * Exposed as `effects` on the plugin instance.
+ */
+export class CursorEffectRegistry {
+	/**
+	 * Base class of every effect, exposed for other plugins to subclass
+	 * since they can't import it.
+	 */
+	public readonly CursorEffectPlugin = CursorEffectPlugin;
+
+	/**
+	 * Registered once as editor extension. Mutated in place, then applied
+	 * through `Workspace.updateOptions()`.
+	 */
+	public readonly extensions: Extension[] = [];
+
+	private readonly workspace: Workspace;
+	/** Persisted configs keyed by effect id, owned by the plugin settings. */
+	private readonly configs: Record<string, CursorEffectConfig>;
+	private readonly onChange: () => void;
+	private readonly issues: SettingsIssue[];
+	private readonly rules: EffectRules;
+	private effects = new Map<string, RegisteredEffect>();
+	/** Live editors, to toggle their native cursor. */
+	private readonly views = new Set<EditorView>();
+	/** Classes last applied to each editor, to skip unchanged ones. */
+	private readonly viewClasses = new WeakMap<EditorView, Record<string, boolean>>();
+
+	/**
+	 * @param configs Persisted configs, kept even for unregistered effects.
+	 * @param onChange Called after the registered effects have changed.
+	 * @param issues Collects the invalid fields of the persisted configs.
+	 * @param rules Turn the effects on and off per editor, by its context
+	 * and the file it shows.
+	 */
+	constructor(
+		workspace: Workspace,
+		configs: Record<string, CursorEffectConfig>,
+		onChange: () => void,
+		issues: SettingsIssue[],
+		rules: EffectRules
+	) {
+		this.workspace = workspace;
+		this.configs = configs;
+		this.onChange = onChange;
+		this.issues = issues;
+		this.rules = rules;
+
+		this.extensions.push(ViewPlugin.define(view => {
+			this.views.add(view);
+			this.updateView(view);
+			return {
+				// The context changes along with the editing mode, or once the
+				// editor is attached or moved elsewhere in the DOM, which
+				// changes its geometry or focus. Rules go through
+				// `refreshViews()`.
+				update: update => {
+					if (
+						update.geometryChanged ||
+						update.focusChanged ||
+						update.startState.field(editorLivePreviewField, false) !==
+							update.state.field(editorLivePreviewField, false)
+					) this.updateView(update.view);
+				},
+				destroy: () => this.views.delete(view)
+			};
+		}));
+	}
+
+	/**
+	 * Register an effect and install it on every editor.
+	 *
+	 * @returns Its unregisterer.
+	 */
+	public register<T extends CursorEffectConfig>(spec: CursorEffectSpec<T>): () => void {
+		if (this.effects.has(spec.id))
+			throw new Error(`Animated Cursor: effect "${spec.id}" is already registered`);
+
+		let id = spec.id,
+			// Mutated in place from then on, so the getters below stay live.
+			config = validateSettings(
+				spec.defaultConfig,
+				this.configs[id],
+				{ ...EFFECT_SCHEMA, ...spec.schema },
+				this.issues,
+				`effects.${id}`
+			);
+		this.configs[id] = config;
+		// Newly added effects stack on top of the existing ones.
+		config.opacity ??= 1;
+		config.order ??= this.list().reduce(
+			(max, other) => Math.max(max, (this.configs[other.id].order ?? 0) + 1), 0
+		);
+
+		let getConfig = (view?: EditorView) => this.resolveViewConfig(id, config, view),
+			plugin = ViewPlugin.define(view => new spec.effect(view, () => getConfig(view))),
+			extension = [plugin, spec.extension?.(getConfig) ?? []];
+		this.effects.set(id, { spec, plugin, extension });
+		this.extensions.push(extension);
+		this.workspace.updateOptions();
+		this.onChange();
+
+		return () => this.unregister(id);
+	}
+
+	/** Uninstall the effect from every editor. Its config stays persisted. */
+	public unregister(id: string): void {
+		let registered = this.effects.get(id);
+		if (!registered) return;
+
+		this.effects.delete(id);
+		this.extensions.remove(registered.extension);
+		this.workspace.updateOptions();
+		this.onChange();
+	}
+
+	public get(id: string): CursorEffectSpec | undefined {
+		return this.effects.get(id)?.spec;
+	}
+
+	/** All registered effects, in registration order. */
+	public list(): CursorEffectSpec[] {
+		return Array.from(this.effects.values(), registered => registered.spec);
+	}
+
+	/** Instance of the effect installed on the view, if any. */
+	public getInstance(view: EditorView, id: string): CursorEffectPlugin | null {
+		let registered = this.effects.get(id);
+		return registered ? view.plugin(registered.plugin) : null;
+	}
+
+	public getConfig(id: string): CursorEffectConfig | undefined {
+		return this.configs[id];
+	}
+
+	/**
+	 * Config of the effect in the view, turned on or off by the effect
+	 * rules. The persisted one as is if no rule applies.
+	 */
+	public getViewConfig(id: string, view?: EditorView): CursorEffectConfig {
+		return this.resolveViewConfig(id, this.configs[id], view);
+	}
+
+	/** Enabled effects, from the bottom layer to the top one. */
+	public getEnabled(): CursorEffectSpec[] {
+		return this.getOrdered().filter(spec => this.configs[spec.id].enabled);
+	}
+
+	/** All registered effects, from the bottom layer to the top one. */
+	public getOrdered(): CursorEffectSpec[] {
+		return this.list().sort((a, b) => (this.configs[a.id].order ?? 0) - (this.configs[b.id].order ?? 0));
+	}
+
+	public setEnabled(id: string, enabled: boolean): void {
+		let config = this.configs[id];
+		if (config) config.enabled = enabled;
+	}
+
+	/**
+	 * Swap the effect with its neighbor layer.
+	 *
+	 * @param offset -1 to move it down, 1 to move it up.
+	 */
+	public move(id: string, offset: -1 | 1): void {
+		let ordered = this.getOrdered(),
+			index = ordered.findIndex(spec => spec.id === id),
+			neighbor = ordered[index + offset];
+
+		if (index < 0 || !neighbor) return;
+
+		// Normalize the orders, then swap.
+		ordered.forEach((spec, i) => this.configs[spec.id].order = i);
+		this.configs[id].order = index + offset;
+		this.configs[neighbor.id].order = index;
+	}
+
+	/**
+	 * Whether any enabled effect replaces the native cursor, in the view if
+	 * given.
+	 */
+	public isCursorReplaced(view?: EditorView): boolean {
+		return this.list().some(spec => {
+			let config = this.getViewConfig(spec.id, view),
+				overlay = typeof spec.overlay == "function" ? spec.overlay(config) : spec.overlay;
+			return !overlay && config.enabled;
+		});
+	}
+
+	/**
+	 * Re-evaluate the effect rules of every editor, e.g. after they or the
+	 * metadata of a file have changed. Call `refreshEffects()` afterwards
+	 * to let the effects pick them up.
+	 */
+	public refreshViews(): void {
+		this.rules.invalidate();
+		this.views.forEach(view => this.updateView(view));
+	}
+
+	/** Typed counterpart of `getViewConfig()`, for the getters of the effect. */
+	private resolveViewConfig<T extends CursorEffectConfig>(id: string, config: T, view?: EditorView): T {
+		let effects = view && this.rules.getEffects(view);
+
+		if (!effects || effects.has(id) == config.enabled) return config;
+		return { ...config, enabled: effects.has(id) };
+	}
+
+	/**
+	 * Find out the context of the view again, then hide its native cursor
+	 * if an effect replaces it, or stop animating it, per the mode of its
+	 * context.
+	 */
+	private updateView(view: EditorView): void {
+		// Table cells are drawn by their main view.
+		if (isNestedView(view)) return;
+
+		this.rules.updateContext(view);
+		let tableCellMode = this.rules.getMode("tableCell"),
+			applied = this.viewClasses.get(view),
+			classes: Record<string, boolean> = {
+				[CURSOR_REPLACED_CLASS]: this.isCursorReplaced(view),
+				[STATIC_CURSOR_CLASS]: this.rules.getViewMode(view) == "off",
+				[TABLE_CELL_NATIVE_CLASS]: tableCellMode != "effects",
+				[TABLE_CELL_STATIC_CLASS]: tableCellMode == "off"
+			};
+
+		for (let cls in classes) {
+			if (applied?.[cls] !== classes[cls]) view.dom.toggleClass(cls, classes[cls]);
+		}
+		this.viewClasses.set(view, classes);
+	}
+}
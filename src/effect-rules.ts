@@ -0,0 +1,174 @@
+import { EditorView } from "@codemirror/view";
+import { editorInfoField, getAllTags, MetadataCache, TFile } from "obsidian";
+import { FieldSchema } from "src/settings-schema";
+import { EditorContext, EditorContextMode, EditorContextModes, getEditorContext } from "src/editor-context";
+
+/**
+ * - `folder`: the note is inside the folder, or any of its subfolders.
+ * - `tag`: the note has the tag, or any of its nested tags.
+ * - `property`: the note has the property, whose value lists the effects.
+ */
+export type EffectRuleType = "folder" | "tag" | "property";
+
+export const EFFECT_RULE_TYPES: readonly EffectRuleType[] = ["folder", "tag", "property"];
+
+/**
+ * Overrides which effects are turned on in the notes it applies to. The
+ * first applying rule wins, the effects left out of it are turned off.
+ */
+export interface EffectRule {
+	type: EffectRuleType;
+	/**
+	 * Folder path, tag without `#`, or property name, per the type. An
+	 * empty folder stands for the whole vault.
+	 */
+	match: string;
+	/**
+	 * Ids of the effects turned on. Property rules take them from the
+	 * property value instead.
+	 */
+	effects: string[];
+}
+
+export const DEFAULT_EFFECT_RULES: EffectRule[] = [
+	{ type: "property", match: "cursor-effect", effects: [] }
+];
+
+export const EFFECT_RULES_SCHEMA: FieldSchema = {
+	type: "list",
+	item: {
+		type: "object",
+		fields: {
+			type: { type: "enum", values: EFFECT_RULE_TYPES },
+			match: { type: "string" },
+			effects: { type: "list", item: { type: "string" } }
+		}
+	}
+};
+
+/** Property value turning every effect off. */
+const NO_EFFECT = "none";
+
+const NO_EFFECTS: ReadonlySet<string> = new Set();
+
+function normalizePath(path: string): string {
+	return path.trim().replace(/^\/+|\/+$/g, "");
+}
+
+function isInFolder(filePath: string, folder: string): boolean {
+	folder = normalizePath(folder);
+	return !folder || filePath.startsWith(folder + "/");
+}
+
+function hasTag(tags: string[], tag: string): boolean {
+	tag = "#" + tag.trim().replace(/^#/, "").toLowerCase();
+	return tags.some(other => {
+		other = other.toLowerCase();
+		return other == tag || other.startsWith(tag + "/");
+	});
+}
+
+/**
+ * Read the effect ids out of a property value, either a list or a text
+ * separated by commas or spaces.
+ */
+function parsePropertyEffects(value: unknown): string[] {
+	let items = Array.isArray(value) ? value : String(value).split(/[\s,]+/);
+	return items
+		.map(item => String(item).trim().toLowerCase())
+		.filter(item => item && item != NO_EFFECT);
+}
+
+/**
+ * Get the effects turned on in the file, per the first rule applying to
+ * it. Null if none does, leaving each effect to its own setting.
+ */
+export function resolveEffectRules(rules: EffectRule[], file: TFile, metadataCache: MetadataCache): string[] | null {
+	let cache = metadataCache.getFileCache(file);
+
+	for (let { type, match, effects } of rules) {
+		if (!match?.trim() && type != "folder") continue;
+
+		switch (type) {
+			case "folder":
+				if (isInFolder(file.path, match ?? "")) return effects ?? [];
+				break;
+			case "tag":
+				if (cache && hasTag(getAllTags(cache) ?? [], match)) return effects ?? [];
+				break;
+			case "property": {
+				let value: unknown = cache?.frontmatter?.[match.trim()];
+				if (value !== undefined && value !== null && value !== "") return parsePropertyEffects(value);
+				break;
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Resolves the effects turned on in each editor, per the mode of its
+ * context and the rules for the file it shows. The rules are cached until
+ * the file of the editor changes, or `invalidate()` is called.
+ */
+export class EffectRules {
+	/** Returns the live rules, in order. */
+	private readonly getRules: () => EffectRule[];
+	/** Returns the live mode of each editor context. */
+	private readonly getModes: () => EditorContextModes;
+	private readonly metadataCache: MetadataCache;
+	private resolved = new WeakMap<EditorView, { file: TFile | null; effects: ReadonlySet<string> | null }>();
+	/** Context of each editor, updated along with it. */
+	private readonly contexts = new WeakMap<EditorView, EditorContext>();
+
+	constructor(getRules: () => EffectRule[], getModes: () => EditorContextModes, metadataCache: MetadataCache) {
+		this.getRules = getRules;
+		this.getModes = getModes;
+		this.metadataCache = metadataCache;
+	}
+
+	/**
+	 * Find out the context of the view again, e.g. after it's been moved
+	 * or switched to source mode.
+	 */
+	public updateContext(view: EditorView): void {
+		this.contexts.set(view, getEditorContext(view));
+	}
+
+	public getMode(context: EditorContext): EditorContextMode {
+		return this.getModes()[context];
+	}
+
+	/** Mode of the context the view lives in. */
+	public getViewMode(view: EditorView): EditorContextMode {
+		let context = this.contexts.get(view);
+		if (!context) this.contexts.set(view, context = getEditorContext(view));
+		return this.getMode(context);
+	}
+
+	/**
+	 * Effects turned on in the view, by its context and then by the rules.
+	 * Null if it's left to each effect's own setting.
+	 */
+	public getEffects(view: EditorView): ReadonlySet<string> | null {
+		if (this.getViewMode(view) != "effects") return NO_EFFECTS;
+
+		let file = view.state.field(editorInfoField, false)?.file ?? null,
+			entry = this.resolved.get(view);
+
+		if (!entry || entry.file !== file) {
+			let effects = file && resolveEffectRules(this.getRules(), file, this.metadataCache);
+			entry = { file, effects: effects ? new Set(effects) : null };
+			this.resolved.set(view, entry);
+		}
+		return entry.effects;
+	}
+
+	/**
+	 * Forget every resolved rule, e.g. after the rules or the metadata of
+	 * a file have changed.
+	 */
+	public invalidate(): void {
+		this.resolved = new WeakMap();
+	}
+}
@@ -0,0 +1,133 @@
+/**
+ * Default time slice, in miliseconds, that all subscribers may spend
+ * drawing within one frame.
+ */
+export const DEFAULT_FRAME_BUDGET = 8;
+
+/**
+ * Anything that draws by animation frames, e.g. a cursor effect of an
+ * editor.
+ */
+export interface FrameSubscriber {
+	/**
+	 * Window it draws in, whose animation frames it follows. The main
+	 * window by default.
+	 */
+	getWindow?(): Window;
+	/**
+	 * Whether it's worth a frame at all, e.g. its view is visible. Inactive
+	 * subscribers are dropped until they request a frame again.
+	 */
+	isActive(): boolean;
+	/**
+	 * Read phase. All subscribers read before any of them writes, avoiding
+	 * layout thrashing.
+	 */
+	readFrame?(time: number): void;
+	/**
+	 * Write phase, where the drawing happens.
+	 *
+	 * @returns True if it needs another frame.
+	 */
+	drawFrame(time: number): boolean;
+}
+
+/** Frame chain of a single window. */
+interface WindowFrames {
+	/** Subscribers waiting for the next frame, in insertion order. */
+	pending: Set<FrameSubscriber>;
+	frameId: number;
+}
+
+/**
+ * One `requestAnimationFrame` chain per window, shared by every subscriber
+ * across the editors of that window. Popout windows thus animate at their
+ * own pace, and aren't throttled along with the main window. A chain only
+ * runs while there's something to animate.
+ */
+export class FrameScheduler {
+	/**
+	 * Maximum time, in miliseconds, spent on drawing per frame. Subscribers
+	 * that don't fit in are deferred to the next frame.
+	 */
+	public frameBudget: number;
+
+	private windows = new Map<Window, WindowFrames>();
+
+	constructor(frameBudget = DEFAULT_FRAME_BUDGET) {
+		this.frameBudget = frameBudget;
+	}
+
+	/**
+	 * Request the next frame for the subscriber. Requesting more than once
+	 * in a frame has no effect.
+	 */
+	public request(subscriber: FrameSubscriber): void {
+		let win = subscriber.getWindow?.() ?? window,
+			frames = this.windows.get(win);
+
+		if (!frames) this.windows.set(win, frames = { pending: new Set(), frameId: 0 });
+		frames.pending.add(subscriber);
+		if (!frames.frameId) frames.frameId = win.requestAnimationFrame(time => this.tick(win, time));
+	}
+
+	/** Drop the pending frame request of the subscriber, if any. */
+	public cancel(subscriber: FrameSubscriber): void {
+		for (let frames of this.windows.values()) frames.pending.delete(subscriber);
+	}
+
+	/** Whether the subscriber is waiting for a frame. */
+	public isPending(subscriber: FrameSubscriber): boolean {
+		for (let frames of this.windows.values()) {
+			if (frames.pending.has(subscriber)) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Stop the frame chain of the window and drop its subscribers, e.g.
+	 * once it's been closed.
+	 */
+	public forgetWindow(win: Window): void {
+		let frames = this.windows.get(win);
+		if (!frames) return;
+
+		if (frames.frameId) win.cancelAnimationFrame(frames.frameId);
+		this.windows.delete(win);
+	}
+
+	public destroy(): void {
+		for (let win of Array.from(this.windows.keys())) this.forgetWindow(win);
+	}
+
+	private tick(win: Window, time: number): void {
+		let frames = this.windows.get(win);
+		if (!frames) return;
+		frames.frameId = 0;
+
+		let batch: FrameSubscriber[] = [];
+		for (let subscriber of frames.pending) {
+			if (subscriber.isActive()) batch.push(subscriber);
+		}
+		frames.pending.clear();
+
+		for (let subscriber of batch) subscriber.readFrame?.(time);
+
+		let start = performance.now(),
+			deferred: FrameSubscriber[] = [];
+
+		for (let i = 0; i < batch.length; i++) {
+			// Always draw at least one, so every subscriber makes progress.
+			if (i > 0 && performance.now() - start > this.frameBudget) {
+				deferred = batch.slice(i);
+				break;
+			}
+			if (batch[i].drawFrame(time)) frames.pending.add(batch[i]);
+		}
+
+		// Deferred ones go first in the next frame.
+		if (deferred.length) frames.pending = new Set([...deferred, ...frames.pending]);
+		if (frames.pending.size) frames.frameId = win.requestAnimationFrame(time => this.tick(win, time));
+		else this.windows.delete(win);
+	}
+}
@@ -1,5 +1,5 @@
-import { EditorView, LayerConfig, MeasureRequest, PluginInstance } from "@codemirror/view";
-import { CursorPluginInstance } from "src/typings";
+import { EditorView, LayerConfig, LayerView, MeasureRequest, PluginInstance } from "@codemirror/view";
+import { CursorPluginInstance, SelectionPluginInstance } from "src/typings";
 
 /** Ensure that it is a layer config. */
 function isLayerConfig(object: object): object is LayerConfig {
@@ -22,8 +22,11 @@ function isMeasureReq(object: object): object is MeasureRequest<unknown> {
 	)
 }
 
-/** Ensure that the plugin value is a `CursorLayerView` instance. */
-function isCursorPlugin(instance: PluginInstance): instance is CursorPluginInstance {
+/**
+ * Ensure that the plugin value is a `LayerView` instance of the layer
+ * with the given class.
+ */
+function isLayerPlugin(instance: PluginInstance, className: string): instance is PluginInstance<LayerView> {
 	let pluginValue = instance.value;
 	return (
 		!!pluginValue &&
@@ -38,10 +41,20 @@ function isCursorPlugin(instance: PluginInstance): instance is CursorPluginInsta
 		"measure" in pluginValue && typeof pluginValue.measure == "function" &&
 		"scale" in pluginValue && typeof pluginValue.scale == "function" &&
 		"draw" in pluginValue && typeof pluginValue.draw == "function" &&
-		pluginValue.layer.class == "cm-cursorLayer"
+		pluginValue.layer.class == className
 	);
 }
 
+/** Ensure that the plugin value is a `CursorLayerView` instance. */
+function isCursorPlugin(instance: PluginInstance): instance is CursorPluginInstance {
+	return isLayerPlugin(instance, "cm-cursorLayer");
+}
+
+/** Ensure that the plugin value is a `SelectionLayerView` instance. */
+function isSelectionPlugin(instance: PluginInstance): instance is SelectionPluginInstance {
+	return isLayerPlugin(instance, "cm-selectionLayer");
+}
+
 /** Hook the builtin cursor plugin provided by Obsidian. */
 export function hookCursorPlugin(view: EditorView): CursorPluginInstance | undefined {
 	// @ts-ignore We ignore view.plugins from being checked because it's
@@ -52,4 +65,15 @@ export function hookCursorPlugin(view: EditorView): CursorPluginInstance | undef
 			return !!instance.value && isCursorPlugin(instance);
 		}
 	);
+}
+
+/** Hook the builtin selection plugin provided by CodeMirror. */
+export function hookSelectionPlugin(view: EditorView): SelectionPluginInstance | undefined {
+	// @ts-ignore Same as in `hookCursorPlugin()`.
+	let pluginInstances = view.plugins as PluginInstance[];
+	return pluginInstances.find(
+		(instance): instance is SelectionPluginInstance => {
+			return !!instance.value && isSelectionPlugin(instance);
+		}
+	);
 }
\ No newline at end of file
@@ -0,0 +1,281 @@
+import { ViewUpdate } from "@codemirror/view";
+import { Setting } from "obsidian";
+import { DEFAULT_PAINT, resolveThemeColor, ThemeColorConfig, THEME_COLOR_SCHEMA, toCssColor } from "src/color";
+import { CursorEffectPlugin, CursorEffectConfig, EffectCursor } from "src/cursor-effect";
+import { CursorEffectSpec } from "src/effect-registry";
+import { SettingsSchema } from "src/settings-schema";
+import { getBaseCoords } from "src/cursor-marker";
+import { advanceMotion, DEFAULT_MOTION } from "src/motion";
+import { addThemeColorSettings } from "src/setting-tab";
+
+/** Requested beacons wait this long for a cursor to show up, in miliseconds. */
+const PENDING_TIMEOUT = 1000;
+
+export type BeaconStyle = "ring" | "line" | "both";
+
+export interface JumpBeaconConfig extends CursorEffectConfig, ThemeColorConfig {
+	style: BeaconStyle;
+	/** In miliseconds. */
+	duration: number;
+	/** Final radius of the ring, in pixels. */
+	radius: number;
+	/** Lines the cursor has to cross to count as a jump, 0 to ignore. */
+	lineThreshold: number;
+	/** Pixels the cursor has to travel to count as a jump, 0 to ignore. */
+	distanceThreshold: number;
+}
+
+const DEFAULT_CONFIG: JumpBeaconConfig = {
+	enabled: false,
+	color: "--interactive-accent",
+	colorDark: DEFAULT_PAINT.colorDark,
+	style: "ring",
+	duration: 600,
+	radius: 40,
+	lineThreshold: 10,
+	distanceThreshold: 400
+};
+
+const CONFIG_SCHEMA: SettingsSchema<JumpBeaconConfig> = {
+	...THEME_COLOR_SCHEMA,
+	style: { type: "enum", values: ["ring", "line", "both"] },
+	duration: { type: "number", min: 50, max: 10000 },
+	radius: { type: "number", min: 1, max: 1000 },
+	lineThreshold: { type: "number", min: 0, integer: true },
+	distanceThreshold: { type: "number", min: 0 }
+};
+
+interface Beacon {
+	x: number;
+	y: number;
+	height: number;
+	age: number;
+}
+
+/** Selection change waiting for its cursor to be measured. */
+interface PendingJump {
+	lines: number;
+	typing: boolean;
+}
+
+/**
+ * Plays a beacon at the destination of the long cursor jumps, such as
+ * search results, heading navigation or a click far away. Changes caused
+ * by typing never count as a jump.
+ *
+ * Draws over the cursor of the other effects, or the native one.
+ */
+export class JumpBeaconPlugin extends CursorEffectPlugin<EffectCursor, JumpBeaconConfig> {
+	private beacons: Beacon[] = [];
+	private pendingJump: PendingJump | null = null;
+	/** Time the beacon has been requested at, 0 if it hasn't. */
+	private requestTime = 0;
+	/** Last target of the primary cursor. */
+	private lastX: number | null = null;
+	private lastY: number | null = null;
+	/** Horizontal extent of the content, in document coordinates. */
+	private contentLeft = 0;
+	private contentWidth = 0;
+
+	protected createCursor(base: EffectCursor): EffectCursor {
+		return base;
+	}
+
+	protected disable(): void {
+		super.disable();
+		this.beacons = [];
+		this.pendingJump = null;
+		this.requestTime = 0;
+		this.lastX = this.lastY = null;
+	}
+
+	/**
+	 * Play the beacon at the primary cursor, even if the effect is
+	 * disabled.
+	 */
+	flash(): void {
+		this.requestTime = Date.now();
+		// Stays alive until the requested beacon has been played.
+		this.keepAlive = true;
+		this.syncConfig();
+	}
+
+	protected onViewUpdate(update: ViewUpdate): void {
+		if (!update.selectionSet) return;
+
+		const { startState, state } = update;
+		const fromLine = startState.doc.lineAt(startState.selection.main.head).number;
+		const toLine = state.doc.lineAt(state.selection.main.head).number;
+
+		this.pendingJump = {
+			lines: Math.abs(toLine - fromLine),
+			typing: update.transactions.some(tr => tr.isUserEvent("input") || tr.isUserEvent("delete"))
+		};
+	}
+
+	protected needsFrame(): boolean {
+		return this.beacons.length > 0 || this.requestTime > 0;
+	}
+
+	readFrame(): void {
+		const base = getBaseCoords(this.view);
+		const rect = this.view.contentDOM.getBoundingClientRect();
+		this.contentLeft = rect.left - base.left;
+		this.contentWidth = rect.width;
+	}
+
+	render(ctx: CanvasRenderingContext2D, dt: number): void {
+		const config = this.getConfig();
+		const primary = this.cursors.find(cursor => cursor.primary && !cursor.removed);
+
+		// Beacons only draw, the cursors still have to settle.
+		for (const cursor of this.cursors) advanceMotion(cursor, dt, DEFAULT_MOTION);
+
+		if (primary) {
+			if (this.requestTime || this.isJump(primary, config)) this.spawn(primary);
+			this.lastX = primary.targetX;
+			this.lastY = primary.targetY;
+		}
+		if (this.requestTime && Date.now() - this.requestTime > PENDING_TIMEOUT) {
+			this.requestTime = 0;
+		}
+
+		this.beacons = this.beacons.filter(beacon => {
+			beacon.age += dt;
+			if (beacon.age >= config.duration) return false;
+			this.drawBeacon(ctx, beacon, config);
+			return true;
+		});
+		ctx.globalAlpha = 1;
+
+		// Done with the requested beacon, go back to the config.
+		this.keepAlive = this.requestTime > 0 || this.beacons.length > 0;
+		if (!this.isEnabled()) this.disable();
+	}
+
+	/** Whether the primary cursor has just jumped. */
+	private isJump(cursor: EffectCursor, config: JumpBeaconConfig): boolean {
+		const jump = this.pendingJump;
+		if (!jump || this.lastX === null || this.lastY === null) return false;
+		// Not measured yet.
+		if (cursor.targetX == this.lastX && cursor.targetY == this.lastY) return false;
+
+		this.pendingJump = null;
+		if (jump.typing) return false;
+
+		const distance = Math.hypot(cursor.targetX - this.lastX, cursor.targetY - this.lastY);
+		return (
+			(config.lineThreshold > 0 && jump.lines >= config.lineThreshold) ||
+			(config.distanceThreshold > 0 && distance >= config.distanceThreshold)
+		);
+	}
+
+	private spawn(cursor: EffectCursor): void {
+		this.requestTime = 0;
+		this.beacons.push({
+			x: cursor.targetX,
+			y: cursor.targetY,
+			height: cursor.height || 24,
+			age: 0
+		});
+	}
+
+	private drawBeacon(ctx: CanvasRenderingContext2D, beacon: Beacon, config: JumpBeaconConfig): void {
+		const progress = config.duration > 0 ? beacon.age / config.duration : 1;
+		// Ease out, fast start then slowing down.
+		const eased = 1 - Math.pow(1 - progress, 3);
+		const alpha = (1 - progress) * this.layerOpacity;
+
+		const color = toCssColor(resolveThemeColor(config, this.view.dom.doc));
+		ctx.fillStyle = color;
+		ctx.strokeStyle = color;
+
+		if (config.style != "ring") {
+			ctx.globalAlpha = alpha * 0.3;
+			ctx.fillRect(this.contentLeft, beacon.y, this.contentWidth, beacon.height);
+		}
+
+		if (config.style != "line") {
+			ctx.globalAlpha = alpha;
+			ctx.lineWidth = 1 + 2 * (1 - progress);
+			ctx.beginPath();
+			ctx.arc(beacon.x, beacon.y + beacon.height / 2, Math.max(config.radius * eased, 1), 0, Math.PI * 2);
+			ctx.stroke();
+		}
+	}
+}
+
+export const jumpBeaconEffect: CursorEffectSpec<JumpBeaconConfig> = {
+	id: "beacon",
+	name: "Jump Beacon",
+	effect: JumpBeaconPlugin,
+	defaultConfig: DEFAULT_CONFIG,
+	schema: CONFIG_SCHEMA,
+	overlay: true,
+	buildSettings({ containerEl, config, reset, save }) {
+		addThemeColorSettings(containerEl, config, "Beacon Color", "Color of the ring and line flash.", save, reset);
+		new Setting(containerEl)
+			.setName("Beacon Style")
+			.setDesc("Expanding ring around the cursor, flash of its line, or both.")
+			.addExtraButton(reset("style"))
+			.addDropdown(dropdown => dropdown
+				.addOptions({ ring: "Ring", line: "Line flash", both: "Both" })
+				.setValue(config.style)
+				.onChange(val => {
+					config.style = val as BeaconStyle;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Beacon Duration")
+			.setDesc("In miliseconds.")
+			.addExtraButton(reset("duration"))
+			.addSlider(slider => slider
+				.setLimits(200, 2000, 50)
+				.setValue(config.duration)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.duration = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Ring Radius")
+			.addExtraButton(reset("radius"))
+			.addSlider(slider => slider
+				.setLimits(10, 200, 5)
+				.setValue(config.radius)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.radius = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Line Threshold")
+			.setDesc("Lines the cursor has to cross to count as a jump, 0 to ignore.")
+			.addExtraButton(reset("lineThreshold"))
+			.addSlider(slider => slider
+				.setLimits(0, 100, 1)
+				.setValue(config.lineThreshold)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.lineThreshold = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Distance Threshold")
+			.setDesc("Pixels the cursor has to travel to count as a jump, 0 to ignore.")
+			.addExtraButton(reset("distanceThreshold"))
+			.addSlider(slider => slider
+				.setLimits(0, 2000, 50)
+				.setValue(config.distanceThreshold)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.distanceThreshold = val;
+					save();
+				})
+			);
+	}
+};
@@ -1,38 +1,153 @@
+import { Extension } from "@codemirror/state";
 import { App, Editor, EventRef, MarkdownView, Plugin } from "obsidian";
-import { patchCursorLayer } from "src/patch";
+import { applyBlinkConfig, patchCursorLayer, patchSelectionLayer } from "src/patch";
 import { AnimatedCursorSettingTab } from "src/setting-tab";
 import { tableCellObserver } from "src/observer";
-import { hookCursorPlugin } from "src/hook";
+import { hookCursorPlugin, hookSelectionPlugin } from "src/hook";
 import { CursorPluginInstance } from "src/typings";
-import { cometCursorPlugin, updateCometConfig } from "src/comet-cursor";
-import { blinkCursorPlugin, updateBlinkConfig } from "src/blink-cursor";
+import { cometCursorEffect } from "src/comet-cursor";
+import { blinkCursorEffect } from "src/blink-cursor";
+import { smearCursorEffect } from "src/smear-cursor";
+import { particleCursorEffect } from "src/particle-cursor";
+import { jumpBeaconEffect, JumpBeaconPlugin } from "src/jump-beacon";
+import { edgeIndicatorEffect } from "src/edge-indicator";
+import { textChangeEffect } from "src/text-change";
+import {
+	CursorEffectConfig,
+	refreshEffects,
+	setBlinkConfig,
+	setCursorStyle,
+	setEditorContextModes,
+	setSyntaxContextConfig
+} from "src/cursor-effect";
+import { CURSOR_SHAPES, CursorStyle, DEFAULT_CURSOR_STYLE } from "src/cursor-marker";
+import { effectLayer, setFrameScheduler } from "src/effect-canvas";
+import { FrameScheduler } from "src/frame-scheduler";
+import { CursorEffectRegistry } from "src/effect-registry";
+import { DEFAULT_EFFECT_RULES, EFFECT_RULES_SCHEMA, EffectRule, EffectRules } from "src/effect-rules";
+import { DEFAULT_EDITOR_CONTEXT_MODES, EDITOR_CONTEXT_MODES_SCHEMA, EditorContextModes } from "src/editor-context";
+import { activeLineLayer } from "src/active-line";
+import { vimModeObserver } from "src/vim";
+import { BLINK_STYLES, BlinkConfig, BlinkStyle, DEFAULT_BLINK } from "src/blink";
+import { clearColorCache, destroyColorProbe } from "src/color";
+import { DEFAULT_SYNTAX_CONTEXT, SYNTAX_CONTEXT_SCHEMA, SyntaxContextConfig } from "src/syntax-context";
+import {
+	applyStyleVariables,
+	clearStyleVariables,
+	DEFAULT_STYLE_VARIABLES,
+	resolveBlinkConfig,
+	StyleVariableSettings
+} from "src/style-variables";
+import {
+	isPlainObject,
+	migrate,
+	Migration,
+	SettingsIssue,
+	SettingsSchema,
+	validateSettings
+} from "src/settings-schema";
 
-export interface AnimatedCursorSettings {
+export interface AnimatedCursorSettings extends CursorStyle, StyleVariableSettings {
+	/** Schema version, upgraded through `MIGRATIONS`. */
+	version: number;
 	useTransform: boolean;
-	trailLength: number;
-	comet: {
-		enabled: boolean;
-		color: string;
-	};
-	blink: {
-		enabled: boolean;
-		color: string;
-	};
+	blinkStyle: BlinkStyle;
+	/** Idle time before blinking, in miliseconds. */
+	blinkDelay: number;
+	/** Let the selection highlight grow and shrink smoothly. */
+	animateSelection: boolean;
+	/** Draw a band under the active line, sliding between lines. */
+	activeLine: boolean;
+	/** Color and shape of the cursor per the syntax under it. */
+	syntaxContext: SyntaxContextConfig;
+	/**
+	 * Turn the effects on and off per note, the first rule applying to it
+	 * wins.
+	 */
+	effectRules: EffectRule[];
+	/**
+	 * Whether each kind of editor gets the cursor effects, the animated
+	 * cursor only, or neither.
+	 */
+	editorContexts: EditorContextModes;
+	/**
+	 * Configs of cursor effects keyed by their id. Defaults are filled in
+	 * by the effect registry.
+	 */
+	effects: Record<string, CursorEffectConfig>;
+}
+
+/** Settings shape from before the effect registry. */
+interface LegacySettings {
+	trailLength?: number;
+	comet?: CursorEffectConfig;
+	blink?: CursorEffectConfig;
 }
 
+/**
+ * Upgrades of the saved settings, the n-th one from version n to n + 1.
+ * Never reorder or remove one, only append.
+ */
+const MIGRATIONS: Migration[] = [
+	// Move the effect configs from before the registry, where the trail
+	// length was shared.
+	data => {
+		let legacy = data as LegacySettings,
+			effects = isPlainObject(data.effects) ? data.effects : (data.effects = {});
+
+		for (let id of ["comet", "blink"] as const) {
+			let legacyConfig = legacy[id];
+			if (!legacyConfig) continue;
+			effects[id] ??= {
+				...legacyConfig,
+				...(legacy.trailLength !== undefined && { tailLength: legacy.trailLength })
+			};
+			delete legacy[id];
+		}
+		delete legacy.trailLength;
+	}
+];
+
 export const DEFAULT_SETTINGS: AnimatedCursorSettings = {
+	version: MIGRATIONS.length,
 	useTransform: true,
-	trailLength: 8,
-	comet: {
-		enabled: true,
-		color: "#9873f7"
-	},
-	blink: {
-		enabled: false,
-		color: "#d6d1ff"
-	}
+	...DEFAULT_CURSOR_STYLE,
+	...DEFAULT_STYLE_VARIABLES,
+	blinkStyle: DEFAULT_BLINK.blinkStyle,
+	blinkDelay: DEFAULT_BLINK.blinkDelay,
+	animateSelection: true,
+	activeLine: false,
+	syntaxContext: DEFAULT_SYNTAX_CONTEXT,
+	effectRules: DEFAULT_EFFECT_RULES,
+	editorContexts: DEFAULT_EDITOR_CONTEXT_MODES,
+	effects: {}
 }
 
+const SETTINGS_SCHEMA: SettingsSchema<AnimatedCursorSettings> = {
+	useTransform: { type: "boolean" },
+	cursorShape: { type: "enum", values: CURSOR_SHAPES },
+	barWidth: { type: "number", min: 1, max: 10 },
+	hollowCursor: { type: "boolean" },
+	followVimMode: { type: "boolean" },
+	moveSpeed: { type: "number", min: 0, max: 5000, nullable: true },
+	moveEasing: { type: "string", nullable: true },
+	blinkStyle: { type: "enum", values: BLINK_STYLES },
+	blinkDelay: { type: "number", min: 0, max: 10000 },
+	blinkPeriod: { type: "number", min: 50, max: 10000, nullable: true },
+	blinkCount: { type: "number", min: 0, max: 1000, integer: true, nullable: true },
+	blinkInfinite: { type: "boolean", nullable: true },
+	animateSelection: { type: "boolean" },
+	activeLine: { type: "boolean" },
+	syntaxContext: { type: "object", fields: SYNTAX_CONTEXT_SCHEMA },
+	effectRules: EFFECT_RULES_SCHEMA,
+	editorContexts: { type: "object", fields: EDITOR_CONTEXT_MODES_SCHEMA },
+	// Each effect config is validated by the effect registry.
+	effects: { type: "object", fields: {} }
+};
+
+/** Duration of the native cursor's color change between syntax contexts. */
+const CONTEXT_TRANSITION_VARIABLE = "--cursor-context-transition";
+
 function iterMarkdownView(app: App, callback: (view: MarkdownView) => unknown): void {
 	app.workspace.getLeavesOfType("markdown").forEach(leaf => {
 		if (leaf.view instanceof MarkdownView)
@@ -43,6 +158,12 @@ function iterMarkdownView(app: App, callback: (view: MarkdownView) => unknown):
 export default class AnimatedCursorPlugin extends Plugin {
 	public settings: AnimatedCursorSettings;
 
+	/**
+	 * Invalid fields found in the saved settings, reported in the setting
+	 * tab. Filled in by the effect registry as well.
+	 */
+	public settingsIssues: SettingsIssue[] = [];
+
 	/**
 	 * If any, it indicates that the cursor plugin is already patched.
 	 */
@@ -50,17 +171,113 @@ export default class AnimatedCursorPlugin extends Plugin {
 	private tryPatchRef?: EventRef;
 	private cursorPlugin?: CursorPluginInstance;
 
+	/**
+	 * Blink config resolved from the settings and the CSS variables, shared
+	 * by the native cursor and the canvas effects. Resolved in place.
+	 */
+	private readonly blink: BlinkConfig = { ...DEFAULT_BLINK };
+
+	/**
+	 * Holds the active line layer while it's turned on. Mutated in place,
+	 * then applied through `Workspace.updateOptions()`.
+	 */
+	private activeLineExtension: Extension[] = [];
+
+	/**
+	 * Drives the frames of every canvas effect across editors. Exposes the
+	 * global frame budget.
+	 */
+	public frameScheduler: FrameScheduler;
+
+	/**
+	 * Every available cursor effect. Other plugins may register their own
+	 * effect through it.
+	 */
+	public effects: CursorEffectRegistry;
+
+	/**
+	 * Every open window, the main one along with the popouts, each with
+	 * its own body to style.
+	 */
+	private windows = new Set<Window>([window]);
+
 	public async onload(): Promise<void> {
 		await this.loadSettings();
-		updateCometConfig({ ...this.settings.comet, tailLength: this.settings.trailLength });
-		updateBlinkConfig({ ...this.settings.blink, tailLength: this.settings.trailLength });
-		this.updateBodyClass();
+		setCursorStyle(this.settings);
+		setBlinkConfig(this.blink);
+		setSyntaxContextConfig(this.settings.syntaxContext);
+		setEditorContextModes(this.settings.editorContexts);
+		// Popouts restored along with the workspace, later ones are added
+		// as they open.
+		this.app.workspace.iterateAllLeaves(leaf => this.windows.add(leaf.view.containerEl.win));
+		this.updateStyleVariables();
+		this.register(() => this.forEachBody(body => this.clearBody(body)));
+		this.register(() => destroyColorProbe());
+		// Style Settings may have changed the variables, and the theme the
+		// colors the effects take.
+		this.registerEvent(this.app.workspace.on("css-change", () => {
+			resolveBlinkConfig(this.settings, this.blink);
+			this.updateBlinkLayers();
+			clearColorCache();
+			refreshEffects();
+		}));
+
+		this.frameScheduler = new FrameScheduler();
+		setFrameScheduler(this.frameScheduler);
+		this.register(() => {
+			setFrameScheduler(null);
+			this.frameScheduler.destroy();
+		});
+
+		this.registerEvent(this.app.workspace.on("window-open", (_, win) => {
+			this.windows.add(win);
+			applyStyleVariables(this.settings, win.document.body);
+			this.applyBodyClass(win.document.body);
+		}));
+		this.registerEvent(this.app.workspace.on("window-close", (_, win) => {
+			this.windows.delete(win);
+			this.frameScheduler.forgetWindow(win);
+			destroyColorProbe(win.document);
+		}));
+
+		this.effects = new CursorEffectRegistry(
+			this.app.workspace,
+			this.settings.effects,
+			() => this.updateBodyClass(),
+			this.settingsIssues,
+			new EffectRules(
+				() => this.settings.effectRules,
+				() => this.settings.editorContexts,
+				this.app.metadataCache
+			)
+		);
+		// The rules depend on the path, tags and properties of the note.
+		this.registerEvent(this.app.metadataCache.on("changed", () => this.refreshRules()));
+		this.registerEvent(this.app.vault.on("rename", () => this.refreshRules()));
+		this.registerEvent(this.app.workspace.on("file-open", () => this.refreshRules()));
+		this.effects.register(cometCursorEffect);
+		this.effects.register(blinkCursorEffect);
+		this.effects.register(smearCursorEffect);
+		this.effects.register(particleCursorEffect);
+		this.effects.register(jumpBeaconEffect);
+		this.effects.register(edgeIndicatorEffect);
+		this.effects.register(textChangeEffect);
+
+		this.addCommand({
+			id: "find-my-cursor",
+			name: "Find my cursor",
+			editorCallback: editor => {
+				let beacon = this.effects.getInstance(editor.cm, jumpBeaconEffect.id);
+				if (beacon instanceof JumpBeaconPlugin) beacon.flash();
+			}
+		});
 
 		this.alreadyPatched = false;
 		this.addSettingTab(new AnimatedCursorSettingTab(this.app, this));
-		this.registerEditorExtension(
-			[tableCellObserver, cometCursorPlugin, blinkCursorPlugin].filter(Boolean)
-		);
+		this.registerEditorExtension([tableCellObserver, vimModeObserver, effectLayer]);
+		this.registerEditorExtension(this.effects.extensions);
+		this.registerEditorExtension(this.activeLineExtension);
+		this.updateActiveLine();
 
 		let activeEditor = this.app.workspace.activeEditor?.editor;
 		if (activeEditor) this.tryPatch(activeEditor);
@@ -71,24 +288,85 @@ export default class AnimatedCursorPlugin extends Plugin {
 
 		this.app.workspace.trigger("parse-style-settings");
 
-		console.log("Load Animated Cursor plugin. Configs:", this.settings.comet.enabled, this.settings.blink.enabled);
+		console.log("Load Animated Cursor plugin. Enabled effects:", this.effects.getEnabled().map(spec => spec.id));
 	}
 
 	public async loadSettings(): Promise<void> {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		let data: unknown = await this.loadData();
+		this.settingsIssues.length = 0;
+
+		if (isPlainObject(data)) migrate(data, MIGRATIONS, this.settingsIssues);
+		this.settings = validateSettings(DEFAULT_SETTINGS, data, SETTINGS_SCHEMA, this.settingsIssues);
+		this.settings.version = MIGRATIONS.length;
 	}
 
 	public async saveSettings(): Promise<void> {
 		await this.saveData(this.settings);
-		updateCometConfig({ ...this.settings.comet, tailLength: this.settings.trailLength });
-		updateBlinkConfig({ ...this.settings.blink, tailLength: this.settings.trailLength });
+		this.updateStyleVariables();
+		this.updateBlinkLayers();
+		// Re-evaluates the effect rules first.
 		this.updateBodyClass();
+		refreshEffects();
+		this.updateActiveLine();
+	}
+
+	/**
+	 * Write the settings to the CSS variables, then resolve the blink out of
+	 * them.
+	 */
+	private updateStyleVariables(): void {
+		this.forEachBody(body => applyStyleVariables(this.settings, body));
+		resolveBlinkConfig(this.settings, this.blink);
+	}
+
+	/**
+	 * Apply the blink config to every cursor layer right away, instead of
+	 * waiting for its cursor to move.
+	 */
+	private updateBlinkLayers(): void {
+		if (!this.cursorPlugin) return;
+		this.forEachBody(body => {
+			body.findAll(".cm-cursorLayer").forEach(layerEl => applyBlinkConfig(layerEl, this.blink));
+		});
+	}
+
+	private updateActiveLine(): void {
+		if (this.settings.activeLine == this.activeLineExtension.length > 0) return;
+
+		if (this.settings.activeLine) this.activeLineExtension.push(activeLineLayer);
+		else this.activeLineExtension.length = 0;
+		this.app.workspace.updateOptions();
+	}
+
+	/** Re-evaluate the effect rules of every editor. */
+	private refreshRules(): void {
+		this.effects.refreshViews();
+		refreshEffects();
 	}
 
 	private updateBodyClass(): void {
-		// Hide native cursor if either effect is enabled, because Blink is a REPLACEMENT, and Comet is a REPLACEMENT.
-		const anyHideNative = this.settings.comet.enabled || this.settings.blink.enabled;
-		document.body.classList.toggle("animated-cursor-hide-native", anyHideNative);
+		// Hide native cursor where any enabled effect draws a REPLACEMENT,
+		// per the effect rules of each editor.
+		this.effects?.refreshViews();
+		this.forEachBody(body => this.applyBodyClass(body));
+	}
+
+	private applyBodyClass(body: HTMLElement): void {
+		// Vim's own block cursor is replaced by the animated one.
+		body.classList.toggle("animated-cursor-follow-vim", this.settings.followVimMode);
+		body.style.setProperty(CONTEXT_TRANSITION_VARIABLE, this.settings.syntaxContext.transition + "ms");
+	}
+
+	/** Remove every class and variable of the plugin from the body. */
+	private clearBody(body: HTMLElement): void {
+		clearStyleVariables(body);
+		body.classList.remove("animated-cursor-follow-vim");
+		body.style.removeProperty(CONTEXT_TRANSITION_VARIABLE);
+	}
+
+	/** Run the callback on the body of every open window. */
+	private forEachBody(callback: (body: HTMLElement) => void): void {
+		for (let win of this.windows) callback(win.document.body);
 	}
 
 	public onunload(): void {
@@ -130,10 +408,17 @@ export default class AnimatedCursorPlugin extends Plugin {
 		}
 
 		// Will be uninstalled automatically on plugin unload.
-		this.register(patchCursorLayer(cursorPlugin.value, this.settings));
+		this.register(patchCursorLayer(cursorPlugin.value, this.settings, this.blink));
 		this.alreadyPatched = true;
 		this.cursorPlugin = cursorPlugin;
 
+		// Selection layer is optional, it's left as is if not found.
+		let selectionPlugin = hookSelectionPlugin(editorView);
+		if (selectionPlugin?.value)
+			this.register(patchSelectionLayer(selectionPlugin.value, this.settings));
+		// eslint-disable-next-line no-unused-labels
+		else DEVEL: console.log("Animated Cursor: selection layer not found");
+
 		// Detach the handler after a successful attemp.
 		this.cancelPatchAttempt();
 
@@ -0,0 +1,179 @@
+import { SettingsSchema } from "src/settings-schema";
+
+/** Duration of a single frame at 60 Hz, in miliseconds. */
+export const FRAME_MS = 1000 / 60;
+
+/** Upper bound of a single time step, avoiding huge leaps after a stall. */
+const MAX_STEP_MS = 100;
+
+/** Spring is integrated in substeps no longer than this, in seconds. */
+const SPRING_SUBSTEP = 1 / 240;
+
+/** Distance and velocity below which the motion snaps to its target. */
+const SETTLE_EPSILON = 0.1;
+
+/**
+ * - `smooth`: exponential smoothing, covers a fixed fraction of the
+ *   remaining distance per 60 Hz frame.
+ * - `spring`: damped spring, critically damped when
+ *   `damping == 2 * sqrt(stiffness)`, under-damped (bouncy) below that.
+ * - `tween`: fixed-duration eased transition, restarted on each target
+ *   change.
+ */
+export type MotionModel = "smooth" | "spring" | "tween";
+
+export type MotionEasing = "linear" | "ease-out" | "ease-in-out";
+
+export interface MotionConfig {
+	model: MotionModel;
+	/** Fraction of the distance covered per 60 Hz frame (`smooth`). */
+	smoothness: number;
+	/** Spring constant (`spring`). */
+	stiffness: number;
+	/** Damping coefficient (`spring`). */
+	damping: number;
+	/** Duration in miliseconds (`tween`). */
+	duration: number;
+	easing: MotionEasing;
+}
+
+export const MOTION_SCHEMA: SettingsSchema<MotionConfig> = {
+	model: { type: "enum", values: ["smooth", "spring", "tween"] },
+	smoothness: { type: "number", min: 0.01, max: 1 },
+	stiffness: { type: "number", min: 1, max: 5000 },
+	damping: { type: "number", min: 0, max: 500 },
+	duration: { type: "number", min: 0, max: 5000 },
+	easing: { type: "enum", values: ["linear", "ease-out", "ease-in-out"] }
+};
+
+export const DEFAULT_MOTION: MotionConfig = {
+	model: "smooth",
+	smoothness: 0.2,
+	stiffness: 400,
+	damping: 40,
+	duration: 120,
+	easing: "ease-out"
+};
+
+/** Motion-related state carried by each animated point. */
+export interface MotionState {
+	currentX: number;
+	currentY: number;
+	targetX: number;
+	targetY: number;
+	velocityX: number;
+	velocityY: number;
+	/** Start of the running tween. */
+	fromX: number;
+	fromY: number;
+	/** Target the running tween heads to. */
+	toX: number;
+	toY: number;
+	/** Time elapsed since the tween started, in miliseconds. */
+	elapsed: number;
+}
+
+const EASINGS: Record<MotionEasing, (t: number) => number> = {
+	"linear": t => t,
+	"ease-out": t => 1 - Math.pow(1 - t, 3),
+	"ease-in-out": t => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+};
+
+/** Create motion state resting at the given point. */
+export function createMotionState(x: number, y: number): MotionState {
+	return {
+		currentX: x, currentY: y,
+		targetX: x, targetY: y,
+		velocityX: 0, velocityY: 0,
+		fromX: x, fromY: y,
+		toX: x, toY: y,
+		elapsed: 0
+	};
+}
+
+/**
+ * Clamp the frame delta to a sane time step. Pass 0 for the first frame
+ * after idle, it will be treated as a single 60 Hz frame.
+ */
+export function clampTimeStep(dt: number): number {
+	if (dt <= 0) return FRAME_MS;
+	return Math.min(dt, MAX_STEP_MS);
+}
+
+/** Whether the state rests at its target. */
+export function isSettled(state: MotionState): boolean {
+	return (
+		state.currentX == state.targetX &&
+		state.currentY == state.targetY &&
+		!state.velocityX && !state.velocityY
+	);
+}
+
+/**
+ * Advance the motion toward its target by `dt` miliseconds, using the
+ * configured model.
+ */
+export function advanceMotion(state: MotionState, dt: number, config: MotionConfig): void {
+	switch (config.model) {
+		case "spring": advanceSpring(state, dt, config); break;
+		case "tween": advanceTween(state, dt, config); break;
+		default: advanceSmooth(state, dt, config);
+	}
+
+	if (
+		Math.abs(state.targetX - state.currentX) < SETTLE_EPSILON &&
+		Math.abs(state.targetY - state.currentY) < SETTLE_EPSILON &&
+		Math.abs(state.velocityX) < SETTLE_EPSILON &&
+		Math.abs(state.velocityY) < SETTLE_EPSILON
+	) {
+		state.currentX = state.targetX;
+		state.currentY = state.targetY;
+		state.velocityX = state.velocityY = 0;
+	}
+}
+
+function advanceSmooth(state: MotionState, dt: number, config: MotionConfig): void {
+	let smoothness = Math.min(Math.max(config.smoothness, 0), 1),
+		// Remaining distance decays the same way regardless of frame rate.
+		amount = 1 - Math.pow(1 - smoothness, dt / FRAME_MS);
+
+	state.currentX += (state.targetX - state.currentX) * amount;
+	state.currentY += (state.targetY - state.currentY) * amount;
+	state.velocityX = state.velocityY = 0;
+}
+
+function advanceSpring(state: MotionState, dt: number, config: MotionConfig): void {
+	let remaining = dt / 1000,
+		{ stiffness, damping } = config;
+
+	// Semi-implicit Euler, stable enough with small substeps. The damping
+	// term is integrated implicitly, so it never diverges however high.
+	while (remaining > 0) {
+		let step = Math.min(remaining, SPRING_SUBSTEP),
+			drag = 1 + damping * step;
+		state.velocityX = (state.velocityX + stiffness * (state.targetX - state.currentX) * step) / drag;
+		state.velocityY = (state.velocityY + stiffness * (state.targetY - state.currentY) * step) / drag;
+		state.currentX += state.velocityX * step;
+		state.currentY += state.velocityY * step;
+		remaining -= step;
+	}
+}
+
+function advanceTween(state: MotionState, dt: number, config: MotionConfig): void {
+	// Restart from where we are whenever the target changes.
+	if (state.toX != state.targetX || state.toY != state.targetY) {
+		state.fromX = state.currentX;
+		state.fromY = state.currentY;
+		state.toX = state.targetX;
+		state.toY = state.targetY;
+		state.elapsed = 0;
+	}
+
+	state.elapsed += dt;
+	let progress = config.duration > 0 ? Math.min(state.elapsed / config.duration, 1) : 1,
+		eased = EASINGS[config.easing]?.(progress) ?? progress;
+
+	state.currentX = state.fromX + (state.toX - state.fromX) * eased;
+	state.currentY = state.fromY + (state.toY - state.fromY) * eased;
+	state.velocityX = state.velocityY = 0;
+}
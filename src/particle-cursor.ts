@@ -0,0 +1,376 @@
+import { EditorView, ViewUpdate } from "@codemirror/view";
+import { Setting } from "obsidian";
+import { DEFAULT_PAINT, resolveThemeColor, ThemeColorConfig, THEME_COLOR_SCHEMA, toCssColor } from "src/color";
+import { CursorEffectPlugin, CursorEffectConfig, EffectCursor } from "src/cursor-effect";
+import { CursorEffectSpec } from "src/effect-registry";
+import { SettingsSchema } from "src/settings-schema";
+import { getBaseCoords } from "src/cursor-marker";
+import { advanceMotion, DEFAULT_MOTION } from "src/motion";
+import { addThemeColorSettings } from "src/setting-tab";
+
+const PARTICLE_ENABLED_CLASS = "particle-cursor-enabled";
+
+/** At most this many changes of a single update emit a burst. */
+const MAX_BURSTS = 32;
+
+/** The combo breaks after this long without typing, in miliseconds. */
+const COMBO_TIMEOUT = 1500;
+
+/** Emission is scaled up to this factor by the combo. */
+const MAX_COMBO_SCALE = 3;
+
+export interface ParticleCursorConfig extends CursorEffectConfig, ThemeColorConfig {
+	/** Take the color of the text being edited instead of `color`. */
+	useTextColor: boolean;
+	/** Particles emitted per insertion, doubled for deletions. */
+	particleCount: number;
+	/** Lifetime of a particle, in miliseconds. */
+	lifetime: number;
+	/** Downward acceleration, in pixels per second squared. */
+	gravity: number;
+	/** Live particles above the cap replace the oldest ones. */
+	maxParticles: number;
+	/** Scale the emission up with the typing streak. */
+	combo: boolean;
+	/** Draw a plain caret along with the particles. */
+	drawCaret: boolean;
+}
+
+const DEFAULT_CONFIG: ParticleCursorConfig = {
+	enabled: false,
+	color: "--interactive-accent",
+	colorDark: DEFAULT_PAINT.colorDark,
+	useTextColor: true,
+	particleCount: 6,
+	lifetime: 600,
+	gravity: 600,
+	maxParticles: 300,
+	combo: true,
+	drawCaret: true
+};
+
+const CONFIG_SCHEMA: SettingsSchema<ParticleCursorConfig> = {
+	...THEME_COLOR_SCHEMA,
+	useTextColor: { type: "boolean" },
+	particleCount: { type: "number", min: 0, max: 100, integer: true },
+	lifetime: { type: "number", min: 50, max: 10000 },
+	gravity: { type: "number", min: 0, max: 2000 },
+	maxParticles: { type: "number", min: 1, max: 5000, integer: true },
+	combo: { type: "boolean" },
+	drawCaret: { type: "boolean" }
+};
+
+type BurstKind = "insert" | "delete";
+
+interface Burst {
+	kind: BurstKind;
+	x: number;
+	y: number;
+	color: string;
+}
+
+interface Particle {
+	kind: BurstKind;
+	x: number;
+	y: number;
+	/** Velocity, in pixels per second. */
+	vx: number;
+	vy: number;
+	age: number;
+	life: number;
+	size: number;
+	rotation: number;
+	color: string;
+}
+
+function createParticle(): Particle {
+	return { kind: "insert", x: 0, y: 0, vx: 0, vy: 0, age: 0, life: 0, size: 0, rotation: 0, color: "" };
+}
+
+function random(min: number, max: number): number {
+	return min + Math.random() * (max - min);
+}
+
+/**
+ * Get the computed color of the text at the given position.
+ */
+function getTextColor(view: EditorView, pos: number): string | undefined {
+	let { node } = view.domAtPos(pos),
+		el = node instanceof HTMLElement ? node : node.parentElement;
+	if (el) return el.win.getComputedStyle(el).color;
+}
+
+/**
+ * Typing effect, known as "power mode". Insertions emit sparks from the
+ * caret, deletions emit a wider burst of shards.
+ */
+class ParticleCursorPlugin extends CursorEffectPlugin<EffectCursor, ParticleCursorConfig> {
+	private particles: Particle[] = [];
+	/** Dead particles, reused by the next bursts. */
+	private pool: Particle[] = [];
+	private combo = 0;
+	private lastEmitTime = 0;
+
+	protected createCursor(base: EffectCursor): EffectCursor {
+		return base;
+	}
+
+	protected enable(): void {
+		super.enable();
+		if (this.surface) this.view.dom.classList.add(PARTICLE_ENABLED_CLASS);
+	}
+
+	protected disable(): void {
+		super.disable();
+		this.view.dom.classList.remove(PARTICLE_ENABLED_CLASS);
+		this.pool.push(...this.particles);
+		this.particles = [];
+		this.combo = 0;
+	}
+
+	protected onViewUpdate(update: ViewUpdate): void {
+		if (!update.docChanged || !this.surface) return;
+
+		let changes: { kind: BurstKind; pos: number }[] = [];
+		update.changes.iterChanges((fromA, toA, fromB, toB) => {
+			if (changes.length >= MAX_BURSTS) return;
+			if (toB > fromB) changes.push({ kind: "insert", pos: toB });
+			else if (toA > fromA) changes.push({ kind: "delete", pos: fromB });
+		});
+		if (!changes.length) return;
+
+		let sourceView = update.view,
+			useTextColor = this.getConfig().useTextColor;
+
+		// Changes happen in the drawn view, either this view or its table
+		// cell's one, but are drawn in this view's coordinates.
+		this.view.requestMeasure({
+			read: () => {
+				let base = getBaseCoords(this.view),
+					bursts: Burst[] = [];
+				for (let { kind, pos } of changes) {
+					if (pos > sourceView.state.doc.length) continue;
+					let coords = sourceView.coordsAtPos(pos, -1);
+					if (!coords) continue;
+					bursts.push({
+						kind,
+						x: coords.left - base.left,
+						y: (coords.top + coords.bottom) / 2 - base.top,
+						color: useTextColor && getTextColor(sourceView, Math.max(pos - 1, 0)) || ""
+					});
+				}
+				return bursts;
+			},
+			write: bursts => {
+				if (!this.surface || !bursts.length) return;
+				this.emit(bursts);
+				this.requestFrame();
+			}
+		});
+	}
+
+	private emit(bursts: Burst[]): void {
+		const config = this.getConfig();
+		const now = Date.now();
+
+		this.combo = now - this.lastEmitTime < COMBO_TIMEOUT ? this.combo + 1 : 1;
+		this.lastEmitTime = now;
+
+		// Every 10 streaking edits add to the emission, up to its cap.
+		const scale = config.combo ? Math.min(1 + Math.floor(this.combo / 10) / 5, MAX_COMBO_SCALE) : 1;
+
+		for (const burst of bursts) {
+			const count = Math.round(config.particleCount * scale * (burst.kind == "delete" ? 2 : 1));
+			for (let i = 0; i < count; i++) this.spawn(burst, config);
+		}
+	}
+
+	private spawn(burst: Burst, config: ParticleCursorConfig): void {
+		// Drop the oldest particle once the cap is reached.
+		const excess = this.particles.length - Math.max(config.maxParticles, 1) + 1;
+		if (excess > 0) this.pool.push(...this.particles.splice(0, excess));
+
+		const particle = this.pool.pop() ?? createParticle();
+		let angle: number, speed: number;
+
+		if (burst.kind == "insert") {
+			// Sparks spray upward.
+			angle = random(-Math.PI * 0.85, -Math.PI * 0.15);
+			speed = random(80, 220);
+		} else {
+			// Shards break apart in every direction.
+			angle = random(0, Math.PI * 2);
+			speed = random(60, 280);
+		}
+
+		particle.kind = burst.kind;
+		particle.x = burst.x;
+		particle.y = burst.y;
+		particle.vx = Math.cos(angle) * speed;
+		particle.vy = Math.sin(angle) * speed;
+		particle.age = 0;
+		particle.life = config.lifetime * random(0.6, 1);
+		particle.size = burst.kind == "insert" ? random(1, 2.5) : random(2, 4);
+		particle.rotation = random(0, Math.PI * 2);
+		particle.color = burst.color || toCssColor(resolveThemeColor(config, this.view.dom.doc));
+		this.particles.push(particle);
+	}
+
+	protected needsFrame(): boolean {
+		return this.particles.length > 0;
+	}
+
+	render(ctx: CanvasRenderingContext2D, dt: number): void {
+		const config = this.getConfig();
+		this.renderParticles(ctx, dt, config);
+
+		for (const cursor of this.cursors) {
+			// Keep moving even if not drawn, so the cursors settle.
+			advanceMotion(cursor, dt, DEFAULT_MOTION);
+			if (!config.drawCaret) continue;
+
+			ctx.globalAlpha = cursor.alpha * this.layerOpacity;
+			ctx.fillStyle = toCssColor(this.getContextColor(resolveThemeColor(config, this.view.dom.doc)));
+			this.fillHead(ctx, cursor, cursor.currentX, cursor.currentY, Math.max(8, cursor.height || 24));
+		}
+		ctx.globalAlpha = 1;
+	}
+
+	private renderParticles(ctx: CanvasRenderingContext2D, dt: number, config: ParticleCursorConfig): void {
+		const step = dt / 1000;
+		let alive = 0;
+
+		for (const particle of this.particles) {
+			particle.age += dt;
+			if (particle.age >= particle.life) {
+				this.pool.push(particle);
+				continue;
+			}
+			this.particles[alive++] = particle;
+
+			particle.vy += config.gravity * step;
+			particle.x += particle.vx * step;
+			particle.y += particle.vy * step;
+			particle.rotation += step * 6;
+
+			ctx.globalAlpha = (1 - particle.age / particle.life) * this.layerOpacity;
+			ctx.fillStyle = particle.color;
+
+			if (particle.kind == "insert") {
+				ctx.beginPath();
+				ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
+				ctx.fill();
+			} else {
+				ctx.save();
+				ctx.translate(particle.x, particle.y);
+				ctx.rotate(particle.rotation);
+				ctx.fillRect(-particle.size / 2, -particle.size / 2, particle.size, particle.size);
+				ctx.restore();
+			}
+		}
+		this.particles.length = alive;
+	}
+}
+
+export const particleCursorEffect: CursorEffectSpec<ParticleCursorConfig> = {
+	id: "particles",
+	name: "Power Mode",
+	effect: ParticleCursorPlugin,
+	defaultConfig: DEFAULT_CONFIG,
+	schema: CONFIG_SCHEMA,
+	// Without its own caret, the native one is left visible.
+	overlay: config => !config.drawCaret,
+	buildSettings({ containerEl, config, reset, save, refresh }) {
+		new Setting(containerEl)
+			.setName("Draw Caret")
+			.setDesc("Turn it off when stacked over another cursor effect.")
+			.addExtraButton(reset("drawCaret"))
+			.addToggle(toggle => toggle
+				.setValue(config.drawCaret)
+				.onChange(val => {
+					config.drawCaret = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Use Text Color")
+			.setDesc("Particles take the color of the text being edited.")
+			.addExtraButton(reset("useTextColor"))
+			.addToggle(toggle => toggle
+				.setValue(config.useTextColor)
+				.onChange(async val => {
+					config.useTextColor = val;
+					await save();
+					refresh();
+				})
+			);
+		addThemeColorSettings(
+			containerEl, config, "Particle Color",
+			config.useTextColor ? "Used by the caret only." : "Color of the caret and particles.",
+			save, reset
+		);
+		new Setting(containerEl)
+			.setName("Particles per Keystroke")
+			.setDesc("Deletions emit twice as many.")
+			.addExtraButton(reset("particleCount"))
+			.addSlider(slider => slider
+				.setLimits(1, 30, 1)
+				.setValue(config.particleCount)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.particleCount = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Particle Lifetime")
+			.setDesc("In miliseconds.")
+			.addExtraButton(reset("lifetime"))
+			.addSlider(slider => slider
+				.setLimits(200, 2000, 50)
+				.setValue(config.lifetime)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.lifetime = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Gravity")
+			.setDesc("How fast the particles fall, 0 to let them float.")
+			.addExtraButton(reset("gravity"))
+			.addSlider(slider => slider
+				.setLimits(0, 2000, 50)
+				.setValue(config.gravity)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.gravity = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Max Particles")
+			.setDesc("Oldest particles are dropped above this count.")
+			.addExtraButton(reset("maxParticles"))
+			.addSlider(slider => slider
+				.setLimits(50, 1000, 50)
+				.setValue(config.maxParticles)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.maxParticles = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Combo")
+			.setDesc("Emit more particles while typing without a break.")
+			.addExtraButton(reset("combo"))
+			.addToggle(toggle => toggle
+				.setValue(config.combo)
+				.onChange(val => {
+					config.combo = val;
+					save();
+				})
+			);
+	}
+};
@@ -1,16 +1,21 @@
 import { EditorState } from "@codemirror/state";
-import { EditorView, ViewUpdate } from "@codemirror/view";
-import { debounce, editorInfoField } from "obsidian";
+import { EditorView, LayerConfig, LayerMarker, ViewUpdate } from "@codemirror/view";
+import { editorInfoField } from "obsidian";
 import { around } from "monkey-around";
-import { CursorLayerView } from "src/typings";
+import { CursorLayerView, SelectionLayerView } from "src/typings";
 import { AnimatedCursorSettings } from "src/main";
 import { tableCellFocusChange } from "src/observer";
 import CursorMarker from "src/cursor-marker";
+import RectMarker from "src/rect-marker";
+import { getCursorRange, resolveCursorStyle, vimModeChange } from "src/vim";
+import { BLINK_STYLES, BlinkConfig } from "src/blink";
+import { getThemeColor } from "src/color";
+import { getContextStyle, withContextShape } from "src/syntax-context";
 
 /**
  * Patch for update handler of cursor layer.
  */
-const layerUpdaterPatch = function (update: ViewUpdate, dom: HTMLElement) {
+const layerUpdaterPatch = (blink: BlinkConfig) => function (update: ViewUpdate, dom: HTMLElement) {
 	if (
 		!update.docChanged && !update.selectionSet &&
 		update.transactions.some(tr => !!tr.annotation(tableCellFocusChange))
@@ -29,11 +34,18 @@ const layerUpdaterPatch = function (update: ViewUpdate, dom: HTMLElement) {
 		(update.view.hasFocus || tableHasFocus)
 	) {
 		dom.removeClass("cm-blinkLayer");
+		applyBlinkConfig(dom, blink);
 		// Debounce the blink.
-		blinkDebouncer(dom);
+		debounceBlink(dom, blink.blinkDelay);
 		return true;
 	}
 
+	// Redraw the cursor, it may turn hollow or change its shape.
+	if (
+		update.focusChanged ||
+		update.transactions.some(tr => tr.annotation(vimModeChange) !== undefined)
+	) return true;
+
 	return false;
 }
 
@@ -57,14 +69,26 @@ const layerMarkersPatch = (settings: AnimatedCursorSettings) => function (view:
 	if (tableCellView) ({ state } = tableCellView);
 	if (view === tableCellView) return cursors;
 
+	let sourceView = tableCellView ?? view,
+		// The syntax context under the main cursor styles every cursor.
+		contextStyle = getContextStyle(settings.syntaxContext, state, state.selection.main.head),
+		options = {
+			...resolveCursorStyle(withContextShape(settings, contextStyle), sourceView),
+			color: contextStyle ? getThemeColor(contextStyle, view.dom.doc) || null : null
+		},
+		// Block cursor turns hollow while the editor is unfocused.
+		hollowClass = options.hollowCursor && options.cursorShape == "block" &&
+			!sourceView.hasFocus ? " cm-cursor-hollow" : "";
+
 	for (let range of state.selection.ranges) {
 		// Primary cursor will be drawn as DOM, opposite to what Obsidian
 		// implemented, so the primary is able to be animated.
 		let isPrimary = range == state.selection.main,
-			className = "cm-cursor " + (isPrimary ? "cm-cursor-primary" : "cm-cursor-secondary"),
+			className = "cm-cursor " + (isPrimary ? "cm-cursor-primary" : "cm-cursor-secondary") + hollowClass,
+			cursorRange = getCursorRange(options, sourceView, range),
 			cursorMarker = tableCellView
-				? CursorMarker.forTableCellRange(view, tableCellView, className, range, settings.useTransform)
-				: CursorMarker.forRange(view, className, range, settings.useTransform);
+				? CursorMarker.forTableCellRange(view, tableCellView, className, cursorRange, options)
+				: CursorMarker.forRange(view, className, cursorRange, options);
 
 		if (cursorMarker)
 			cursors.push(cursorMarker);
@@ -72,6 +96,25 @@ const layerMarkersPatch = (settings: AnimatedCursorSettings) => function (view:
 	return cursors;
 }
 
+/**
+ * Patch for marker maker of selection layer. Draws the same rectangles as
+ * CodeMirror's does, as `RectMarker` instead, so they resize smoothly.
+ */
+const selectionMarkersPatch = (settings: AnimatedCursorSettings) => (
+	next: (view: EditorView) => readonly LayerMarker[]
+) => function (this: LayerConfig, view: EditorView) {
+	if (!settings.animateSelection) return next.call(this, view);
+
+	let markers: RectMarker[] = [];
+	for (let range of view.state.selection.ranges) {
+		markers.push(...RectMarker.forRange(view, "cm-selectionBackground cm-animatedRect", range));
+	}
+	return markers;
+}
+
+/** Pending blink of each cursor layer. */
+const blinkTimers = new WeakMap<HTMLElement, number>();
+
 /**
  * Debounce the cursor blink by delaying its layer element from being
  * blink-animated, instead of changing its animation keyframe each layer
@@ -79,16 +122,32 @@ const layerMarkersPatch = (settings: AnimatedCursorSettings) => function (view:
  * 
  * This is according to the cursor blink mechanism in VSCode.
  */
-const blinkDebouncer = debounce((layerEl: HTMLElement) => {
-	layerEl.addClass("cm-blinkLayer");
-}, 350, true);
+function debounceBlink(layerEl: HTMLElement, delay: number) {
+	let win = layerEl.win;
+	win.clearTimeout(blinkTimers.get(layerEl));
+	blinkTimers.set(layerEl, win.setTimeout(() => {
+		blinkTimers.delete(layerEl);
+		layerEl.addClass("cm-blinkLayer");
+	}, delay));
+}
+
+/**
+ * Apply the blink style to the cursor layer, picked up by its blink
+ * keyframes in `styles.css`. The period and count are read from the CSS
+ * variables.
+ */
+export function applyBlinkConfig(layerEl: HTMLElement, config: BlinkConfig) {
+	for (let style of BLINK_STYLES)
+		layerEl.toggleClass("cm-blinkStyle-" + style, style == config.blinkStyle);
+	layerEl.toggleClass("cm-blinkInfinite", config.blinkInfinite);
+}
 
 /**
  * Get table cell's `EditorView` in the current editor if any.
  * 
  * @param state Associated `EditorState`.
  */
-function getTableCellCm(state: EditorState): EditorView | undefined {
+export function getTableCellCm(state: EditorState): EditorView | undefined {
 	let editor = state.field(editorInfoField).editor,
 		{ activeCM } = editor ?? {};
 
@@ -100,15 +159,31 @@ function getTableCellCm(state: EditorState): EditorView | undefined {
 /**
  * Patch the cursor layer and return the uninstaller to revert the patch.
  * 
+ * @param blink Resolved blink config, read live.
  * @returns A patch uninstaller.
  * 
  * @remark **Should not be executed again after successful hook attemp**
  */
-export function patchCursorLayer(cursorPlugin: CursorLayerView, settings: AnimatedCursorSettings) {
+export function patchCursorLayer(cursorPlugin: CursorLayerView, settings: AnimatedCursorSettings, blink: BlinkConfig) {
 	return around(cursorPlugin.layer, {
 		// Patch the update handler.
-		update: () => layerUpdaterPatch,
+		update: () => layerUpdaterPatch(blink),
 		// Patch the marker generator method.
 		markers: () => layerMarkersPatch(settings)
 	});
+}
+
+/**
+ * Patch the selection layer and return the uninstaller to revert the
+ * patch.
+ * 
+ * @returns A patch uninstaller.
+ * 
+ * @remark **Should not be executed again after successful hook attemp**
+ */
+export function patchSelectionLayer(selectionPlugin: SelectionLayerView, settings: AnimatedCursorSettings) {
+	return around(selectionPlugin.layer, {
+		// Patch the marker generator method.
+		markers: selectionMarkersPatch(settings)
+	});
 }
\ No newline at end of file
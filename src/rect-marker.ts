@@ -0,0 +1,88 @@
+import { EditorView, LayerMarker, RectangleMarker } from "@codemirror/view";
+import { SelectionRange } from "@codemirror/state";
+import { getBaseCoords } from "src/cursor-marker";
+
+/**
+ * Implementation of `LayerMarker` for rectangles that slide and resize
+ * smoothly, such as the selection or the active line. Modelled on
+ * `CursorMarker`, its element is reused upon update, so the CSS
+ * transition can take place.
+ */
+export default class RectMarker implements LayerMarker {
+	public readonly className: string;
+
+	public readonly left: number;
+	public readonly top: number;
+	/** If null, the element gets no width assigned. */
+	public readonly width: number | null;
+	public readonly height: number;
+
+	constructor(className: string, left: number, top: number, width: number | null, height: number) {
+		this.className = className;
+		// Round the dimension avoiding using new marker upon mere fractional
+		// difference.
+		this.left = Math.round(left);
+		this.top = Math.round(top);
+		this.width = width === null ? null : Math.round(width);
+		this.height = Math.round(height);
+	}
+
+	public draw(): HTMLElement {
+		let rectEl = createDiv(this.className);
+		this.adjust(rectEl);
+		return rectEl;
+	}
+
+	public update(rectEl: HTMLElement, prev: RectMarker): boolean {
+		if (prev.className != this.className) return false;
+		this.adjust(rectEl);
+		return true;
+	}
+
+	public eq(other: RectMarker): boolean {
+		return (
+			this.left == other.left &&
+			this.top == other.top &&
+			this.width == other.width &&
+			this.height == other.height &&
+			this.className == other.className
+		);
+	}
+
+	/**
+	 * Create markers covering the selection range, one per visual piece
+	 * of it. Returns nothing for empty range.
+	 */
+	public static forRange(view: EditorView, className: string, range: SelectionRange): RectMarker[] {
+		if (range.empty) return [];
+		return RectangleMarker.forRange(view, className, range).map(
+			rect => new RectMarker(className, rect.left, rect.top, rect.width, rect.height)
+		);
+	}
+
+	/**
+	 * Create a marker spanning the content width, covering the line block
+	 * at the given position.
+	 */
+	public static forLine(view: EditorView, className: string, pos: number): RectMarker {
+		let block = view.lineBlockAt(pos),
+			baseCoords = getBaseCoords(view),
+			contentRect = view.contentDOM.getBoundingClientRect();
+		return new RectMarker(
+			className,
+			contentRect.left - baseCoords.left,
+			view.documentTop - baseCoords.top + block.top,
+			contentRect.width,
+			block.height
+		);
+	}
+
+	private adjust(rectEl: HTMLElement): void {
+		rectEl.setCssStyles({
+			left: this.left + "px",
+			top: this.top + "px",
+			width: this.width === null ? "" : this.width + "px",
+			height: this.height + "px"
+		});
+	}
+}
@@ -1,8 +1,38 @@
 import AnimatedCursorPlugin from "src/main";
-import { App, PluginSettingTab, Setting } from "obsidian"
+import { App, ColorComponent, ExtraButtonComponent, PluginSettingTab, Setting, TextComponent } from "obsidian"
+import { MotionConfig, MotionEasing, MotionModel } from "src/motion";
+import { CursorShape } from "src/cursor-marker";
+import { BlinkStyle } from "src/blink";
+import { readStyleVariables } from "src/style-variables";
+import { isCssColor, PaintConfig, resolveColor, ThemeColorConfig, toHexColor } from "src/color";
+import { DEFAULT_SYNTAX_CONTEXT, SYNTAX_CONTEXTS, SyntaxContext } from "src/syntax-context";
+import { EffectRuleType } from "src/effect-rules";
+import { EDITOR_CONTEXTS, EditorContext, EditorContextMode } from "src/editor-context";
+
+/** Names of the editor contexts, as listed in the setting tab. */
+const EDITOR_CONTEXT_NAMES: Record<EditorContext, [name: string, desc: string]> = {
+	livePreview: ["Live preview", "Notes in live preview mode."],
+	source: ["Source mode", "Notes in source mode."],
+	canvas: ["Canvas cards", "Notes and text cards being edited on a canvas."],
+	popover: ["Hover popovers", "Notes being edited in a hover page preview."],
+	embed: ["Embedded notes", "Notes being edited while embedded in another one."],
+	tableCell: ["Table cells", "Cells of a table being edited, the cursor effects follow the editor of the table."]
+};
+
+/** Names of the syntax contexts, as listed in the setting tab. */
+const CONTEXT_NAMES: Record<SyntaxContext, string> = {
+	frontmatter: "Properties",
+	code: "Code",
+	math: "Math",
+	comment: "Comments",
+	link: "Links",
+	heading: "Headings"
+};
 
 export class AnimatedCursorSettingTab extends PluginSettingTab {
 	public readonly plugin: AnimatedCursorPlugin;
+	/** Ids of the effect sections left expanded, kept across redraws. */
+	private readonly openSections = new Set<string>();
 
 	constructor(app: App, plugin: AnimatedCursorPlugin) {
 		super(app, plugin);
@@ -13,6 +43,29 @@ export class AnimatedCursorSettingTab extends PluginSettingTab {
 		const { containerEl } = this;
 		containerEl.empty();
 
+		// Saved settings found invalid upon loading, already fixed by now.
+		const issues = this.plugin.settingsIssues;
+		if (issues.length) {
+			new Setting(containerEl)
+				.setName("Invalid settings")
+				.setDesc("Some saved settings were invalid, they have been reset or clamped.")
+				.setHeading()
+				.addExtraButton(button => button
+					.setIcon("x")
+					.setTooltip("Dismiss")
+					.onClick(() => {
+						issues.length = 0;
+						this.display();
+					})
+				);
+			const list = containerEl.createEl("ul", { cls: "animated-cursor-settings-issues" });
+			for (const issue of issues) {
+				const item = list.createEl("li");
+				item.createEl("code", { text: issue.path });
+				item.appendText(" " + issue.message);
+			}
+		}
+
 		new Setting(this.containerEl)
 			.setName("Slightly more smoothly")
 			.setDesc(
@@ -27,75 +80,495 @@ export class AnimatedCursorSettingTab extends PluginSettingTab {
 				})
 			);
 
+		new Setting(this.containerEl)
+			.setName("Cursor shape")
+			.setDesc("Shape of the cursor, followed by the cursor effects as well.")
+			.addDropdown(dropdown => dropdown
+				.addOptions({ bar: "Bar", block: "Block", underline: "Underline" })
+				.setValue(this.plugin.settings.cursorShape)
+				.onChange(async val => {
+					this.plugin.settings.cursorShape = val as CursorShape;
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+
+		if (this.plugin.settings.cursorShape == "bar") new Setting(this.containerEl)
+			.setName("Bar width")
+			.setDesc("Width of the bar cursor in pixels.")
+			.addSlider(slider => slider
+				.setLimits(1, 6, 1)
+				.setValue(this.plugin.settings.barWidth)
+				.setDynamicTooltip()
+				.onChange(val => {
+					this.plugin.settings.barWidth = val;
+					this.plugin.saveSettings();
+				})
+			);
+
+		if (this.plugin.settings.cursorShape == "block") new Setting(this.containerEl)
+			.setName("Hollow when unfocused")
+			.setDesc("If turned on, the block cursor stays visible as hollow block while the editor is unfocused.")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.hollowCursor)
+				.onChange(val => {
+					this.plugin.settings.hollowCursor = val;
+					this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(this.containerEl)
+			.setName("Follow Vim mode")
+			.setDesc(
+				"If turned on, the cursor replaces the one of Vim mode, switching its shape along with the mode: " +
+				"block in normal and visual mode, bar in insert mode, and underline in replace mode."
+			)
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.followVimMode)
+				.onChange(val => {
+					this.plugin.settings.followVimMode = val;
+					this.plugin.saveSettings();
+				})
+			);
 
+		new Setting(this.containerEl)
+			.setName("Animate selection")
+			.setDesc("If turned on, the selection highlight grows and shrinks smoothly as the selection changes.")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.animateSelection)
+				.onChange(val => {
+					this.plugin.settings.animateSelection = val;
+					this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(this.containerEl)
+			.setName("Highlight active line")
+			.setDesc("If turned on, a band is drawn under the line of the cursor, sliding as the cursor moves between lines.")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.activeLine)
+				.onChange(val => {
+					this.plugin.settings.activeLine = val;
+					this.plugin.saveSettings();
+				})
+			);
 
-		// --- EFFECT SELECTION ---
-		let currentEffect = "none";
-		if (this.plugin.settings.comet.enabled) currentEffect = "comet";
-		else if (this.plugin.settings.blink.enabled) currentEffect = "blink";
+		// --- STYLE VARIABLES ---
+		const variables = readStyleVariables();
 
 		new Setting(containerEl)
-			.setName("Cursor Effect")
-			.setDesc("Select the cursor animation effect.")
+			.setName("Movement and blink")
+			.setDesc(
+				"These take precedence over the ones set via Style Settings plugin. " +
+				"Reset one to let Style Settings, or the default, decide it again."
+			)
+			.setHeading();
+
+		this.addVariableReset(new Setting(this.containerEl)
+			.setName("Cursor speed")
+			.setDesc("Duration of each cursor movement, in miliseconds.")
+			.addSlider(slider => slider
+				.setLimits(0, 500, 10)
+				.setValue(this.plugin.settings.moveSpeed ?? variables.moveSpeed)
+				.setDynamicTooltip()
+				.onChange(val => {
+					this.plugin.settings.moveSpeed = val;
+					this.plugin.saveSettings();
+				})
+			), "moveSpeed");
+
+		new Setting(this.containerEl)
+			.setName("Cursor easing")
+			.setDesc("Timing function of each cursor movement, such as \"linear\" or \"cubic-bezier(0.2, 0, 0, 1)\". Leave it empty to reset.")
+			.addText(text => text
+				.setPlaceholder(variables.moveEasing)
+				.setValue(this.plugin.settings.moveEasing ?? "")
+				.onChange(val => {
+					this.plugin.settings.moveEasing = val.trim() || null;
+					this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(this.containerEl)
+			.setName("Blink style")
+			.setDesc("How the cursor blinks while idle, followed by the cursor effects as well.")
 			.addDropdown(dropdown => dropdown
-				.addOption("none", "None")
-				.addOption("comet", "Comet Cursor")
-				.addOption("blink", "Custom Blink Cursor")
-				.setValue(currentEffect)
-				.onChange(async (val) => {
-					// Update settings based on selection
-					this.plugin.settings.comet.enabled = (val === "comet");
-					this.plugin.settings.blink.enabled = (val === "blink");
+				.addOptions({ blink: "Blink", smooth: "Smooth", phase: "Phase", expand: "Expand", solid: "Solid" })
+				.setValue(this.plugin.settings.blinkStyle)
+				.onChange(async val => {
+					this.plugin.settings.blinkStyle = val as BlinkStyle;
 					await this.plugin.saveSettings();
-					// Refresh UI to show/hide relevant options
 					this.display();
 				})
 			);
 
-		// --- DYNAMIC SETTINGS ---
+		if (this.plugin.settings.blinkStyle != "solid") {
+			new Setting(this.containerEl)
+				.setName("Blink delay")
+				.setDesc("Idle time before the cursor starts blinking, in miliseconds.")
+				.addSlider(slider => slider
+					.setLimits(0, 2000, 50)
+					.setValue(this.plugin.settings.blinkDelay)
+					.setDynamicTooltip()
+					.onChange(val => {
+						this.plugin.settings.blinkDelay = val;
+						this.plugin.saveSettings();
+					})
+				);
 
-		if (this.plugin.settings.comet.enabled) {
-			new Setting(containerEl)
-				.setName("Comet Color")
-				.setDesc("Trailing tail color.")
-				.addColorPicker(picker => picker
-					.setValue(this.plugin.settings.comet.color)
+			this.addVariableReset(new Setting(this.containerEl)
+				.setName("Blink rate")
+				.setDesc("Length of a full blink cycle, in miliseconds.")
+				.addSlider(slider => slider
+					.setLimits(200, 3000, 50)
+					.setValue(this.plugin.settings.blinkPeriod ?? variables.blinkPeriod)
+					.setDynamicTooltip()
 					.onChange(val => {
-						this.plugin.settings.comet.color = val;
+						this.plugin.settings.blinkPeriod = val;
 						this.plugin.saveSettings();
 					})
+				), "blinkPeriod");
+
+			new Setting(this.containerEl)
+				.setName("Infinite blinking")
+				.setDesc("If turned on, the cursor blinks endlessly, regardless of the blink count.")
+				.addDropdown(dropdown => dropdown
+					.addOptions({ default: "Style Settings", on: "On", off: "Off" })
+					.setValue(this.plugin.settings.blinkInfinite === null ? "default" : this.plugin.settings.blinkInfinite ? "on" : "off")
+					.onChange(async val => {
+						this.plugin.settings.blinkInfinite = val == "default" ? null : val == "on";
+						await this.plugin.saveSettings();
+						this.display();
+					})
 				);
-		}
 
-		if (this.plugin.settings.blink.enabled) {
-			new Setting(containerEl)
-				.setName("Blink Cursor Color")
-				.setDesc("Color of the custom cursor and trail.")
-				.addColorPicker(picker => picker
-					.setValue(this.plugin.settings.blink.color)
+			if (!this.plugin.settings.blinkInfinite) new Setting(this.containerEl)
+				.setName("Blink count")
+				.setDesc("Blinks before the cursor stays still, restarted each time it moves. Set it to 0 to stop blinking, or leave it empty to reset.")
+				.addText(text => text
+					.setPlaceholder(String(variables.blinkCount))
+					.setValue(this.plugin.settings.blinkCount?.toString() ?? "")
 					.onChange(val => {
-						this.plugin.settings.blink.color = val;
+						let blinkCount = val.trim() ? parseInt(val) : null;
+						if (blinkCount !== null && (isNaN(blinkCount) || blinkCount < 0)) return;
+						this.plugin.settings.blinkCount = blinkCount;
 						this.plugin.saveSettings();
 					})
 				);
 		}
 
-		if (this.plugin.settings.blink.enabled || this.plugin.settings.comet.enabled) {
-			new Setting(this.containerEl)
-				.setName("Trail Length")
-				.setDesc("Controls how quickly the trail vanishes (longer value = longer trail).")
+		this.addSyntaxContextSettings();
+
+		// --- EFFECT STACK ---
+		const { effects } = this.plugin;
+		const save = () => this.plugin.saveSettings();
+		const refresh = () => this.display();
+
+		new Setting(containerEl)
+			.setName("Cursor Effects")
+			.setDesc("Enabled effects are stacked in one canvas, the upper one in this list is drawn on top.")
+			.setHeading();
+
+		const ordered = effects.getOrdered().reverse();
+		ordered.forEach((spec, i) => {
+			const config = effects.getConfig(spec.id);
+			if (!config) return;
+
+			new Setting(containerEl)
+				.setName(spec.name)
+				.addExtraButton(button => button
+					.setIcon("arrow-up")
+					.setTooltip("Draw above")
+					.setDisabled(i == 0)
+					.onClick(async () => {
+						effects.move(spec.id, 1);
+						await save();
+						refresh();
+					})
+				)
+				.addExtraButton(button => button
+					.setIcon("arrow-down")
+					.setTooltip("Draw below")
+					.setDisabled(i == ordered.length - 1)
+					.onClick(async () => {
+						effects.move(spec.id, -1);
+						await save();
+						refresh();
+					})
+				)
+				.addToggle(toggle => toggle
+					.setValue(config.enabled)
+					.onChange(async (val) => {
+						effects.setEnabled(spec.id, val);
+						await save();
+						// Refresh UI to show/hide relevant options
+						refresh();
+					})
+				);
+		});
+
+		this.addEffectRuleSettings();
+		this.addEditorContextSettings();
+
+		// --- DYNAMIC SETTINGS ---
+		for (const spec of effects.getEnabled().reverse()) {
+			const config = effects.getConfig(spec.id);
+			if (!config) continue;
+
+			const { defaultConfig: defaults } = spec;
+			const sectionEl = containerEl.createEl("details", { cls: "animated-cursor-effect-section" });
+			sectionEl.open = this.openSections.has(spec.id);
+			sectionEl.createEl("summary", { text: spec.name });
+			sectionEl.addEventListener("toggle", () => {
+				if (sectionEl.open) this.openSections.add(spec.id);
+				else this.openSections.delete(spec.id);
+			});
+
+			new Setting(sectionEl)
+				.setName("Layer Opacity")
+				.setDesc("Opacity of the whole effect in the stack.")
+				.addExtraButton(button => button
+					.setIcon("rotate-ccw")
+					.setTooltip("Restore default")
+					.onClick(async () => {
+						config.opacity = 1;
+						await save();
+						refresh();
+					})
+				)
 				.addSlider(slider => slider
-					.setLimits(5, 50, 1)
-					.setValue(this.plugin.settings.trailLength)
+					.setLimits(0.05, 1, 0.05)
+					.setValue(config.opacity ?? 1)
 					.setDynamicTooltip()
 					.onChange(val => {
-						this.plugin.settings.trailLength = val;
+						config.opacity = val;
+						save();
+					})
+				);
+			spec.buildSettings?.({
+				containerEl: sectionEl,
+				config,
+				defaults,
+				reset: key => resetButton(config, defaults, key, save, refresh),
+				save,
+				refresh
+			});
+
+			new Setting(sectionEl)
+				.addButton(button => button
+					.setButtonText("Restore defaults")
+					.onClick(async () => {
+						// Keeps its place in the stack.
+						const { enabled, order } = config;
+						for (const key in config) delete config[key];
+						Object.assign(config, structuredClone(defaults), { enabled, order, opacity: 1 });
+						await save();
+						refresh();
+					})
+				);
+		}
+	}
+
+	/**
+	 * Add the options of the context-colored cursor, with a collapsible
+	 * section for each syntax context.
+	 */
+	private addSyntaxContextSettings(): void {
+		const { containerEl } = this;
+		const config = this.plugin.settings.syntaxContext;
+		const save = () => this.plugin.saveSettings();
+		const refresh = () => this.display();
+
+		new Setting(containerEl)
+			.setName("Syntax context")
+			.setDesc(
+				"Color the cursor, and optionally change its shape, per the syntax under the main cursor, " +
+				"such as code, links or headings. Followed by the cursor effects as well."
+			)
+			.setHeading()
+			.addToggle(toggle => toggle
+				.setValue(config.enabled)
+				.onChange(async val => {
+					config.enabled = val;
+					await save();
+					refresh();
+				})
+			);
+
+		if (!config.enabled) return;
+
+		new Setting(containerEl)
+			.setName("Color transition")
+			.setDesc("Duration of the color change between contexts, in miliseconds.")
+			.addExtraButton(resetButton(config, DEFAULT_SYNTAX_CONTEXT, "transition", save, refresh))
+			.addSlider(slider => slider
+				.setLimits(0, 1000, 25)
+				.setValue(config.transition)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.transition = val;
+					save();
+				})
+			);
+
+		for (const context of SYNTAX_CONTEXTS) {
+			const style = config.styles[context];
+			const defaults = DEFAULT_SYNTAX_CONTEXT.styles[context];
+			const reset = (key: keyof typeof style) => resetButton(style, defaults, key, save, refresh);
+			const sectionId = "context:" + context;
+			const sectionEl = containerEl.createEl("details", { cls: "animated-cursor-effect-section" });
+			sectionEl.open = this.openSections.has(sectionId);
+			sectionEl.createEl("summary", { text: CONTEXT_NAMES[context] });
+			sectionEl.addEventListener("toggle", () => {
+				if (sectionEl.open) this.openSections.add(sectionId);
+				else this.openSections.delete(sectionId);
+			});
+
+			addThemeColorSettings(sectionEl, style, "Cursor color", "Leave it empty to keep the cursor color.", save, reset, true);
+			new Setting(sectionEl)
+				.setName("Cursor shape")
+				.addExtraButton(reset("cursorShape"))
+				.addDropdown(dropdown => dropdown
+					.addOptions({ none: "Unchanged", bar: "Bar", block: "Block", underline: "Underline" })
+					.setValue(style.cursorShape ?? "none")
+					.onChange(val => {
+						style.cursorShape = val == "none" ? null : val as CursorShape;
+						save();
+					})
+				);
+		}
+	}
+
+	/**
+	 * Add the mode of each editor context.
+	 */
+	private addEditorContextSettings(): void {
+		const { containerEl } = this;
+		const modes = this.plugin.settings.editorContexts;
+
+		new Setting(containerEl)
+			.setName("Editor contexts")
+			.setDesc(
+				"Pick what each kind of editor gets: the cursor effects, the animated cursor only, " +
+				"or a plain cursor without animation. Effect rules apply where the cursor effects are picked."
+			)
+			.setHeading();
+
+		for (const context of EDITOR_CONTEXTS) {
+			const [name, desc] = EDITOR_CONTEXT_NAMES[context];
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addDropdown(dropdown => dropdown
+					.addOptions({ effects: "Cursor effects", native: "Animated cursor", off: "Off" })
+					.setValue(modes[context])
+					.onChange(val => {
+						modes[context] = val as EditorContextMode;
 						this.plugin.saveSettings();
 					})
 				);
 		}
-		// --- General Settings (Always visible if relevant) ---
-		// Add back 'useTransform' if needed, but keeping it minimal for now per request.
+	}
+
+	/**
+	 * Add the editor of the effect rules, evaluated from the top one.
+	 */
+	private addEffectRuleSettings(): void {
+		const { containerEl } = this;
+		const rules = this.plugin.settings.effectRules;
+		const ids = this.plugin.effects.list().map(spec => spec.id);
+		const save = () => this.plugin.saveSettings();
+		const refresh = () => this.display();
+
+		new Setting(containerEl)
+			.setName("Effect rules")
+			.setDesc(
+				"Turn effects on and off per note, overriding the list above. The first rule applying to the note " +
+				"wins, turning on the effects it lists and the others off. A property rule takes the effects " +
+				"from the property value instead, such as \"cursor-effect: blink\", or \"none\" to turn them off."
+			)
+			.setHeading()
+			.addButton(button => button
+				.setButtonText("Add rule")
+				.onClick(async () => {
+					rules.push({ type: "folder", match: "", effects: [] });
+					await save();
+					refresh();
+				})
+			);
+
+		rules.forEach((rule, i) => {
+			const setting = new Setting(containerEl)
+				.addDropdown(dropdown => dropdown
+					.addOptions({ folder: "Folder", tag: "Tag", property: "Property" })
+					.setValue(rule.type)
+					.onChange(async val => {
+						rule.type = val as EffectRuleType;
+						await save();
+						refresh();
+					})
+				)
+				.addText(text => text
+					.setPlaceholder({ folder: "Journal", tag: "draft", property: "cursor-effect" }[rule.type])
+					.setValue(rule.match)
+					.onChange(val => {
+						rule.match = val.trim();
+						save();
+					})
+				);
+
+			if (rule.type != "property") setting.addText(text => text
+				.setPlaceholder("No effects")
+				.setValue(rule.effects.join(", "))
+				.onChange(val => {
+					rule.effects = val.split(/[\s,]+/).filter(id => id);
+					save();
+				})
+			);
+
+			setting
+				.setName(`Rule ${i + 1}`)
+				.setDesc(rule.type == "property"
+					? "Applies to the notes having the property."
+					: `Applies to the notes ${rule.type == "folder" ? "inside the folder, the whole vault if empty" : "having the tag"}. ` +
+					`Turns on the listed effects, out of: ${ids.join(", ")}.`
+				)
+				.addExtraButton(button => button
+					.setIcon("arrow-up")
+					.setTooltip("Evaluate earlier")
+					.setDisabled(i == 0)
+					.onClick(async () => {
+						rules.splice(i - 1, 2, rules[i], rules[i - 1]);
+						await save();
+						refresh();
+					})
+				)
+				.addExtraButton(button => button
+					.setIcon("trash")
+					.setTooltip("Remove rule")
+					.onClick(async () => {
+						rules.splice(i, 1);
+						await save();
+						refresh();
+					})
+				);
+		});
+	}
+
+	/**
+	 * Add a button resetting the setting, letting Style Settings decide the
+	 * variable again.
+	 */
+	private addVariableReset(setting: Setting, key: "moveSpeed" | "blinkPeriod"): void {
+		setting.addExtraButton(button => button
+			.setIcon("rotate-ccw")
+			.setTooltip("Reset")
+			.onClick(async () => {
+				this.plugin.settings[key] = null;
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
 	}
 
 	public hide(): void {
@@ -104,3 +577,285 @@ export class AnimatedCursorSettingTab extends PluginSettingTab {
 		super.hide();
 	}
 }
+
+/**
+ * Build a button restoring the field to its default, then redrawing the
+ * tab. Passed to `Setting.addExtraButton()`.
+ */
+export function resetButton<T extends object>(
+	target: T,
+	defaults: T,
+	key: keyof T,
+	save: () => Promise<void>,
+	refresh: () => void
+): (button: ExtraButtonComponent) => void {
+	return button => button
+		.setIcon("rotate-ccw")
+		.setTooltip("Restore default")
+		.onClick(async () => {
+			target[key] = structuredClone(defaults[key]);
+			await save();
+			refresh();
+		});
+}
+
+/**
+ * Add the motion model options of an effect. Only the parameters of the
+ * selected model are shown.
+ */
+export function addMotionSettings(
+	containerEl: HTMLElement,
+	motion: MotionConfig,
+	defaults: MotionConfig,
+	save: () => Promise<void>,
+	refresh: () => void
+): void {
+	const reset = (key: keyof MotionConfig) => resetButton(motion, defaults, key, save, refresh);
+
+	new Setting(containerEl)
+		.setName("Motion")
+		.setDesc("How the cursor travels to its new position. All models run at the same speed on any refresh rate.")
+		.addExtraButton(reset("model"))
+		.addDropdown(dropdown => dropdown
+			.addOption("smooth", "Smooth")
+			.addOption("spring", "Spring")
+			.addOption("tween", "Tween")
+			.setValue(motion.model)
+			.onChange(async (val) => {
+				motion.model = val as MotionModel;
+				await save();
+				refresh();
+			})
+		);
+
+	if (motion.model == "smooth") {
+		new Setting(containerEl)
+			.setName("Smoothness")
+			.setDesc("Portion of the remaining distance covered per 60 Hz frame (lower value = more floaty).")
+			.addExtraButton(reset("smoothness"))
+			.addSlider(slider => slider
+				.setLimits(0.05, 1, 0.05)
+				.setValue(motion.smoothness)
+				.setDynamicTooltip()
+				.onChange(val => {
+					motion.smoothness = val;
+					save();
+				})
+			);
+	}
+
+	if (motion.model == "spring") {
+		new Setting(containerEl)
+			.setName("Stiffness")
+			.setDesc("How strongly the cursor is pulled to its target.")
+			.addExtraButton(reset("stiffness"))
+			.addSlider(slider => slider
+				.setLimits(50, 1500, 10)
+				.setValue(motion.stiffness)
+				.setDynamicTooltip()
+				.onChange(val => {
+					motion.stiffness = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Damping")
+			.setDesc(
+				"How quickly the bounce dies down. " +
+				"Twice the square root of stiffness is critically damped, lower value bounces."
+			)
+			.addExtraButton(reset("damping"))
+			.addSlider(slider => slider
+				.setLimits(5, 100, 1)
+				.setValue(motion.damping)
+				.setDynamicTooltip()
+				.onChange(val => {
+					motion.damping = val;
+					save();
+				})
+			);
+	}
+
+	if (motion.model == "tween") {
+		new Setting(containerEl)
+			.setName("Duration")
+			.setDesc("Time of each movement in miliseconds.")
+			.addExtraButton(reset("duration"))
+			.addSlider(slider => slider
+				.setLimits(20, 500, 10)
+				.setValue(motion.duration)
+				.setDynamicTooltip()
+				.onChange(val => {
+					motion.duration = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Easing")
+			.addExtraButton(reset("easing"))
+			.addDropdown(dropdown => dropdown
+				.addOption("linear", "Linear")
+				.addOption("ease-out", "Ease out")
+				.addOption("ease-in-out", "Ease in-out")
+				.setValue(motion.easing)
+				.onChange(val => {
+					motion.easing = val as MotionEasing;
+					save();
+				})
+			);
+	}
+}
+
+/**
+ * Add the trail length option of an effect.
+ */
+export function addTrailLengthSetting(
+	containerEl: HTMLElement,
+	config: { tailLength: number },
+	save: () => Promise<void>,
+	reset: (button: ExtraButtonComponent) => void
+): void {
+	new Setting(containerEl)
+		.setName("Trail Length")
+		.setDesc("Controls how quickly the trail vanishes (longer value = longer trail).")
+		.addExtraButton(reset)
+		.addSlider(slider => slider
+			.setLimits(5, 50, 1)
+			.setValue(config.tailLength)
+			.setDynamicTooltip()
+			.onChange(val => {
+				config.tailLength = val;
+				save();
+			})
+		);
+}
+
+/**
+ * Add a color option taking any CSS color or variable, along with a picker
+ * for convenience. Invalid input is marked, and isn't saved.
+ *
+ * @param optional Whether it may be left empty.
+ */
+export function addColorSetting(
+	containerEl: HTMLElement,
+	value: string,
+	onChange: (value: string) => void,
+	reset: (button: ExtraButtonComponent) => void,
+	optional = false
+): Setting {
+	let text: TextComponent,
+		picker: ColorComponent;
+
+	return new Setting(containerEl)
+		.addExtraButton(reset)
+		.addText(component => text = component
+			.setPlaceholder(optional ? "" : "--interactive-accent")
+			.setValue(value)
+			.onChange(val => {
+				val = val.trim();
+				const valid = (optional && !val) || isCssColor(val);
+				text.inputEl.toggleClass("is-invalid", !valid);
+				if (!valid) return;
+				if (val) picker.setValue(toHexColor(resolveColor(val)));
+				onChange(val);
+			})
+		)
+		.addColorPicker(component => picker = component
+			.setValue(value ? toHexColor(resolveColor(value)) : "#000000")
+			.onChange(val => {
+				text.setValue(val);
+				text.inputEl.removeClass("is-invalid");
+				onChange(val);
+			})
+		);
+}
+
+/**
+ * Add the color options of an effect, one for each theme.
+ */
+export function addThemeColorSettings(
+	containerEl: HTMLElement,
+	config: ThemeColorConfig,
+	name: string,
+	desc: string,
+	save: () => Promise<void>,
+	reset: (key: keyof ThemeColorConfig) => (button: ExtraButtonComponent) => void,
+	optional = false
+): void {
+	addColorSetting(containerEl, config.color, val => {
+		config.color = val;
+		save();
+	}, reset("color"), optional)
+		.setName(name)
+		.setDesc(desc + " Takes any CSS color, or a CSS variable such as \"--interactive-accent\".");
+	addColorSetting(containerEl, config.colorDark, val => {
+		config.colorDark = val;
+		save();
+	}, reset("colorDark"), true)
+		.setName("Dark Mode Color")
+		.setDesc("Used in dark mode instead, leave it empty to use the same color.");
+}
+
+/**
+ * Add the gradient and hue cycle options of a trail-drawing effect.
+ */
+export function addPaintSettings(
+	containerEl: HTMLElement,
+	config: PaintConfig,
+	save: () => Promise<void>,
+	refresh: () => void,
+	reset: (key: keyof PaintConfig) => (button: ExtraButtonComponent) => void
+): void {
+	new Setting(containerEl)
+		.setName("Gradient")
+		.setDesc("Further colors along the trail, from the head to its end.")
+		.addExtraButton(reset("gradient"))
+		.addButton(button => button
+			.setButtonText("Add stop")
+			.onClick(async () => {
+				config.gradient.push(config.gradient.at(-1) ?? config.color);
+				await save();
+				refresh();
+			})
+		);
+	config.gradient.forEach((stop, i) => {
+		addColorSetting(containerEl, stop, val => {
+			config.gradient[i] = val;
+			save();
+		}, button => button
+			.setIcon("trash")
+			.setTooltip("Remove stop")
+			.onClick(async () => {
+				config.gradient.splice(i, 1);
+				await save();
+				refresh();
+			})
+		).setName(`Stop ${i + 1}`);
+	});
+
+	new Setting(containerEl)
+		.setName("Rainbow")
+		.setDesc("Cycle the hue over time. Keeps redrawing while the editor is focused.")
+		.addExtraButton(reset("rainbow"))
+		.addToggle(toggle => toggle
+			.setValue(config.rainbow)
+			.onChange(async val => {
+				config.rainbow = val;
+				await save();
+				refresh();
+			})
+		);
+	if (config.rainbow) new Setting(containerEl)
+		.setName("Rainbow Period")
+		.setDesc("Length of a full hue cycle, in miliseconds.")
+		.addExtraButton(reset("rainbowPeriod"))
+		.addSlider(slider => slider
+			.setLimits(500, 20000, 500)
+			.setValue(config.rainbowPeriod)
+			.setDynamicTooltip()
+			.onChange(val => {
+				config.rainbowPeriod = val;
+				save();
+			})
+		);
+}
@@ -0,0 +1,161 @@
+import { isCssColor } from "src/color";
+
+/**
+ * A field found invalid upon loading the settings, reported in the setting
+ * tab. The field has been clamped or reset by then.
+ */
+export interface SettingsIssue {
+	/** Dotted path of the field, e.g. `effects.comet.color`. */
+	path: string;
+	message: string;
+}
+
+export type FieldSchema =
+	| { type: "boolean"; nullable?: boolean }
+	| { type: "number"; min?: number; max?: number; integer?: boolean; nullable?: boolean }
+	| { type: "string"; nullable?: boolean }
+	| { type: "enum"; values: readonly string[]; nullable?: boolean }
+	/** Any CSS color or variable name, or empty if `optional`. */
+	| { type: "color"; optional?: boolean }
+	/** Invalid items are dropped. */
+	| { type: "list"; item: FieldSchema }
+	| { type: "object"; fields: SettingsSchema<object> };
+
+/**
+ * Schema of a settings object, one entry for each field to be validated.
+ * Fields left out are merged without validation.
+ */
+export type SettingsSchema<T extends object> = { [K in keyof T]?: FieldSchema };
+
+/**
+ * Upgrades the saved data from its version to the next one, in place.
+ */
+export type Migration = (data: Record<string, unknown>) => void;
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value == "object" && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+	return typeof value == "string" ? `"${value}"` : JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Bring the saved data up to the latest version, which is the count of the
+ * migrations. Data without a version is taken as version 0.
+ *
+ * @param migrations The n-th one upgrades version n to n + 1.
+ */
+export function migrate(data: Record<string, unknown>, migrations: Migration[], issues: SettingsIssue[]): void {
+	let version = typeof data.version == "number" ? data.version : 0;
+
+	if (version > migrations.length) issues.push({
+		path: "version",
+		message: `Saved by a newer version of the plugin (${version}), some settings may be lost.`
+	});
+
+	for (let i = version; i < migrations.length; i++) migrations[i](data);
+	data.version = migrations.length;
+}
+
+/**
+ * Deep-merge the saved data over the defaults, validating the fields per
+ * the schema. Invalid fields fall back to their default, out-of-range
+ * numbers are clamped, and both are reported to `issues`.
+ *
+ * Unknown keys of the saved data are kept, they may belong to a newer
+ * version or an effect not registered yet.
+ */
+export function validateSettings<T extends object>(
+	defaults: T,
+	saved: unknown,
+	schema: SettingsSchema<T>,
+	issues: SettingsIssue[],
+	path = ""
+): T {
+	let result = structuredClone(defaults) as Record<string, unknown>,
+		fieldSchemas = schema as Record<string, FieldSchema | undefined>;
+
+	if (saved === undefined || saved === null) return result as T;
+	if (!isPlainObject(saved)) {
+		issues.push({ path: path || "(root)", message: `Expected an object, got ${describe(saved)}.` });
+		return result as T;
+	}
+
+	for (let key in saved) {
+		let fieldPath = path ? `${path}.${key}` : key,
+			fieldSchema = fieldSchemas[key],
+			value = saved[key],
+			fallback = result[key];
+
+		if (fieldSchema) {
+			result[key] = validateField(fieldSchema, value, fallback, fieldPath, issues);
+		} else if (isPlainObject(fallback) && isPlainObject(value)) {
+			result[key] = validateSettings(fallback, value, {}, issues, fieldPath);
+		} else {
+			result[key] = value;
+		}
+	}
+
+	return result as T;
+}
+
+function validateField(
+	schema: FieldSchema,
+	value: unknown,
+	fallback: unknown,
+	path: string,
+	issues: SettingsIssue[]
+): unknown {
+	let invalid = (expected: string) => {
+		let outcome = fallback === undefined ? "Dropped." : `Reset to ${describe(fallback)}.`;
+		issues.push({ path, message: `Expected ${expected}, got ${describe(value)}. ${outcome}` });
+		return fallback;
+	};
+
+	switch (schema.type) {
+		case "boolean":
+			if (value === null && schema.nullable) return null;
+			return typeof value == "boolean" ? value : invalid("true or false");
+
+		case "number": {
+			if (value === null && schema.nullable) return null;
+			if (typeof value != "number" || !isFinite(value)) return invalid("a number");
+
+			let { min = -Infinity, max = Infinity } = schema,
+				clamped = Math.min(Math.max(schema.integer ? Math.round(value) : value, min), max);
+			if (clamped !== value) issues.push({
+				path,
+				message: `${describe(value)} is out of range, clamped to ${clamped}.`
+			});
+			return clamped;
+		}
+
+		case "string":
+			if (value === null && schema.nullable) return null;
+			return typeof value == "string" ? value : invalid("a text");
+
+		case "enum":
+			if (value === null && schema.nullable) return null;
+			return typeof value == "string" && schema.values.includes(value)
+				? value
+				: invalid(`one of ${schema.values.map(describe).join(", ")}`);
+
+		case "color":
+			return typeof value == "string" && (isCssColor(value) || (schema.optional && value === ""))
+				? value
+				: invalid("a CSS color or variable, such as \"#9873f7\" or \"--interactive-accent\"");
+
+		case "list": {
+			if (!Array.isArray(value)) return invalid("a list");
+			// Invalid items fall back to nothing, then get dropped.
+			return value
+				.map((item, i) => validateField(schema.item, item, undefined, `${path}.${i}`, issues))
+				.filter(item => item !== undefined);
+		}
+
+		case "object":
+			if (!isPlainObject(value)) return invalid("an object");
+			return validateSettings(isPlainObject(fallback) ? fallback : {}, value, schema.fields, issues, path);
+	}
+}
@@ -0,0 +1,246 @@
+import { Setting } from "obsidian";
+import { DEFAULT_PAINT, Paint, PaintConfig, PAINT_SCHEMA } from "src/color";
+import { CursorEffectPlugin, CursorEffectConfig, EffectCursor } from "src/cursor-effect";
+import { CursorRect } from "src/cursor-marker";
+import { CursorEffectSpec } from "src/effect-registry";
+import { SettingsSchema } from "src/settings-schema";
+import {
+	advanceMotion,
+	createMotionState,
+	DEFAULT_MOTION,
+	isSettled,
+	MotionConfig,
+	MOTION_SCHEMA,
+	MotionState
+} from "src/motion";
+import { addMotionSettings, addPaintSettings, addThemeColorSettings } from "src/setting-tab";
+
+const SMEAR_ENABLED_CLASS = "smear-cursor-enabled";
+
+/** Color stops of the smear, enough to follow a rainbow hue shift. */
+const SMEAR_GRADIENT_STEPS = 4;
+
+export interface SmearCursorConfig extends CursorEffectConfig, PaintConfig {
+	/** Spring constant of the trailing edge, the lower the longer it lags. */
+	trailingStiffness: number;
+	/** Maximum distance between the leading and trailing edge, in pixels. */
+	maxStretch: number;
+	/** Motion of the leading edge. */
+	motion: MotionConfig;
+}
+
+const DEFAULT_CONFIG: SmearCursorConfig = {
+	enabled: false,
+	...DEFAULT_PAINT,
+	color: "--interactive-accent",
+	trailingStiffness: 250,
+	maxStretch: 300,
+	motion: { ...DEFAULT_MOTION, smoothness: 0.6 }
+};
+
+const CONFIG_SCHEMA: SettingsSchema<SmearCursorConfig> = {
+	...PAINT_SCHEMA,
+	trailingStiffness: { type: "number", min: 1, max: 5000 },
+	maxStretch: { type: "number", min: 0, max: 10000 },
+	motion: { type: "object", fields: MOTION_SCHEMA }
+};
+
+interface SmearCursor extends EffectCursor {
+	/** Trailing edge, chasing the leading one (the cursor itself). */
+	tail: MotionState;
+	/** Height of the trailing edge, eased to the current line height. */
+	tailHeight: number;
+}
+
+type Point = [x: number, y: number];
+
+/** Cross product of OA and OB vectors. */
+function cross(o: Point, a: Point, b: Point): number {
+	return (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+}
+
+/** Convex hull of the points, using the monotone chain algorithm. */
+function convexHull(points: Point[]): Point[] {
+	let sorted = points.slice().sort((a, b) => a[0] - b[0] || a[1] - b[1]),
+		lower: Point[] = [],
+		upper: Point[] = [];
+
+	for (let point of sorted) {
+		while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0)
+			lower.pop();
+		lower.push(point);
+	}
+	for (let i = sorted.length - 1; i >= 0; i--) {
+		let point = sorted[i];
+		while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0)
+			upper.pop();
+		upper.push(point);
+	}
+
+	upper.pop();
+	lower.pop();
+	return lower.concat(upper);
+}
+
+/**
+ * Neovide-like smear cursor. The caret stretches into a quadrilateral
+ * from its old position to its new one, where the leading edge arrives
+ * first and the trailing edge catches up with spring timing.
+ */
+class SmearCursorPlugin extends CursorEffectPlugin<SmearCursor, SmearCursorConfig> {
+	protected createCursor(base: EffectCursor): SmearCursor {
+		return {
+			...base,
+			tail: createMotionState(base.currentX, base.currentY),
+			tailHeight: base.height
+		};
+	}
+
+	protected enable(): void {
+		super.enable();
+		if (this.surface) this.view.dom.classList.add(SMEAR_ENABLED_CLASS);
+	}
+
+	protected disable(): void {
+		super.disable();
+		this.view.dom.classList.remove(SMEAR_ENABLED_CLASS);
+	}
+
+	protected needsFrame(): boolean {
+		return this.cursors.some(cursor =>
+			!isSettled(cursor.tail) || cursor.tailHeight != cursor.height
+		) || (this.getConfig().rainbow && this.hasFocus);
+	}
+
+	render(ctx: CanvasRenderingContext2D, dt: number): void {
+		const config = this.getConfig();
+		const paint = this.getPaint(config);
+
+		for (const cursor of this.cursors) {
+			ctx.globalAlpha = cursor.alpha * this.layerOpacity;
+			this.advance(cursor, dt, config);
+			this.drawSmear(ctx, cursor, paint);
+		}
+		ctx.globalAlpha = 1;
+	}
+
+	private advance(cursor: SmearCursor, dt: number, config: SmearCursorConfig): void {
+		const { tail } = cursor;
+		const stiffness = Math.max(config.trailingStiffness, 1);
+
+		advanceMotion(cursor, dt, config.motion);
+
+		tail.targetX = cursor.currentX;
+		tail.targetY = cursor.currentY;
+		advanceMotion(tail, dt, {
+			...DEFAULT_MOTION,
+			model: "spring",
+			stiffness,
+			// Critically damped, the trailing edge never overshoots.
+			damping: 2 * Math.sqrt(stiffness)
+		});
+
+		// Don't let the trailing edge lag too far behind.
+		const dx = tail.currentX - cursor.currentX;
+		const dy = tail.currentY - cursor.currentY;
+		const stretch = Math.hypot(dx, dy);
+		if (stretch > config.maxStretch) {
+			const ratio = config.maxStretch / stretch;
+			tail.currentX = cursor.currentX + dx * ratio;
+			tail.currentY = cursor.currentY + dy * ratio;
+		}
+
+		// Trailing edge takes the new line height as it catches up.
+		const heightRate = 1 - Math.exp(-dt * Math.sqrt(stiffness) / 1000);
+		cursor.tailHeight += (cursor.height - cursor.tailHeight) * heightRate;
+		if (Math.abs(cursor.height - cursor.tailHeight) < 0.1) cursor.tailHeight = cursor.height;
+	}
+
+	private drawSmear(ctx: CanvasRenderingContext2D, cursor: SmearCursor, paint: Paint): void {
+		const { tail } = cursor;
+		const headHeight = cursor.height || 20;
+		// Once settled, the smear is just the cursor, blinking as well.
+		const { opacity } = this.blink;
+		if (opacity <= 0) return;
+		ctx.globalAlpha *= opacity;
+		const head = this.applyBlink(this.getHeadRect(cursor, cursor.currentX, cursor.currentY, headHeight));
+		const trailing = this.applyBlink(this.getHeadRect(cursor, tail.currentX, tail.currentY, cursor.tailHeight || headHeight));
+
+		const hull = convexHull([head, trailing].flatMap(rect => [
+			[rect.left, rect.top],
+			[rect.left + rect.width, rect.top],
+			[rect.left + rect.width, rect.top + rect.height],
+			[rect.left, rect.top + rect.height]
+		] as Point[]));
+
+		ctx.fillStyle = this.getSmearFill(ctx, head, trailing, paint);
+		ctx.beginPath();
+		hull.forEach(([x, y], i) => i ? ctx.lineTo(x, y) : ctx.moveTo(x, y));
+		ctx.closePath();
+
+		ctx.globalAlpha *= this.headAlpha;
+		if (this.isHollow) {
+			ctx.strokeStyle = ctx.fillStyle;
+			ctx.lineWidth = 1;
+			ctx.stroke();
+		} else {
+			ctx.fill();
+		}
+	}
+
+	/**
+	 * Spread the colors from the leading edge to the trailing one. A
+	 * zero-length gradient paints nothing, so a settled smear is solid.
+	 */
+	private getSmearFill(ctx: CanvasRenderingContext2D, head: CursorRect, trailing: CursorRect, paint: Paint): string | CanvasGradient {
+		const x0 = head.left + head.width / 2, y0 = head.top + head.height / 2;
+		const x1 = trailing.left + trailing.width / 2, y1 = trailing.top + trailing.height / 2;
+		if (Math.hypot(x1 - x0, y1 - y0) < 1) return paint.css(0);
+
+		const gradient = ctx.createLinearGradient(x0, y0, x1, y1);
+		for (let i = 0; i <= SMEAR_GRADIENT_STEPS; i++) {
+			const t = i / SMEAR_GRADIENT_STEPS;
+			gradient.addColorStop(t, paint.css(t));
+		}
+		return gradient;
+	}
+}
+
+export const smearCursorEffect: CursorEffectSpec<SmearCursorConfig> = {
+	id: "smear",
+	name: "Smear Cursor",
+	effect: SmearCursorPlugin,
+	defaultConfig: DEFAULT_CONFIG,
+	schema: CONFIG_SCHEMA,
+	buildSettings({ containerEl, config, defaults, reset, save, refresh }) {
+		addThemeColorSettings(containerEl, config, "Smear Color", "Color of the caret and its smear.", save, reset);
+		addPaintSettings(containerEl, config, save, refresh, reset);
+		new Setting(containerEl)
+			.setName("Trailing Stiffness")
+			.setDesc("How fast the trailing edge catches up (lower value = longer smear).")
+			.addExtraButton(reset("trailingStiffness"))
+			.addSlider(slider => slider
+				.setLimits(1, 5000, 1)
+				.setValue(config.trailingStiffness)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.trailingStiffness = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Max Stretch")
+			.setDesc("Longest distance the smear may stretch, in pixels, 0 to turn it off.")
+			.addExtraButton(reset("maxStretch"))
+			.addSlider(slider => slider
+				.setLimits(0, 10000, 10)
+				.setValue(config.maxStretch)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.maxStretch = val;
+					save();
+				})
+			);
+		addMotionSettings(containerEl, config.motion, defaults.motion, save, refresh);
+	}
+};
@@ -0,0 +1,120 @@
+import { BlinkConfig, BlinkStyle, DEFAULT_BLINK } from "src/blink";
+
+/**
+ * Settings mirroring the variables of the `@settings` block in
+ * `styles.css`, the ones Style Settings plugin adjusts.
+ *
+ * Precedence, from the highest: a value set here, then the one set via
+ * Style Settings, then the default in `styles.css`. Null leaves the
+ * variable to Style Settings.
+ */
+export interface StyleVariableSettings {
+	/** Cursor movement duration, in miliseconds. */
+	moveSpeed: number | null;
+	/** Any CSS timing function. */
+	moveEasing: string | null;
+	/** Full blink cycle, in miliseconds. */
+	blinkPeriod: number | null;
+	/** Blink cycles before the cursor stays still. */
+	blinkCount: number | null;
+	blinkInfinite: boolean | null;
+}
+
+export const DEFAULT_STYLE_VARIABLES: StyleVariableSettings = {
+	moveSpeed: null,
+	moveEasing: null,
+	blinkPeriod: null,
+	blinkCount: null,
+	blinkInfinite: null
+};
+
+type VariableKey = Exclude<keyof StyleVariableSettings, "blinkInfinite">;
+
+/** CSS custom property of each setting. */
+const VARIABLES: Record<VariableKey, string> = {
+	moveSpeed: "--cursor-move-speed",
+	moveEasing: "--cursor-move-easing",
+	blinkPeriod: "--cursor-blink-rate",
+	blinkCount: "--cursor-blink-count"
+};
+
+/** Defaults of `styles.css`. */
+const DEFAULT_MOVE_SPEED = 80;
+const DEFAULT_MOVE_EASING = "ease";
+
+/** Body class toggled by Style Settings for infinite blinking. */
+const BLINK_INFINITY_CLASS = "cursor-blink-infinity";
+
+/**
+ * Write the settings to the CSS custom properties, as inline style of the
+ * body, overriding the ones of Style Settings. Unset ones are removed.
+ */
+export function applyStyleVariables(settings: StyleVariableSettings, el = document.body): void {
+	let { moveSpeed, moveEasing, blinkPeriod, blinkCount } = settings,
+		values: Record<VariableKey, string | null> = {
+			moveSpeed: moveSpeed !== null ? moveSpeed + "ms" : null,
+			moveEasing: moveEasing || null,
+			blinkPeriod: blinkPeriod !== null ? blinkPeriod + "ms" : null,
+			blinkCount: blinkCount !== null ? String(blinkCount) : null
+		};
+
+	for (let key of Object.keys(VARIABLES) as VariableKey[]) {
+		let value = values[key];
+		if (value !== null) el.style.setProperty(VARIABLES[key], value);
+		else el.style.removeProperty(VARIABLES[key]);
+	}
+}
+
+/** Remove every variable written by `applyStyleVariables()`. */
+export function clearStyleVariables(el = document.body): void {
+	for (let property of Object.values(VARIABLES))
+		el.style.removeProperty(property);
+}
+
+/**
+ * Parse a CSS time, either in `ms` or `s`, into miliseconds.
+ */
+function parseTime(value: string): number {
+	let time = parseFloat(value);
+	return value.trim().endsWith("ms") ? time : time * 1000;
+}
+
+/**
+ * Read the effective value of every variable, whoever has set it. Falls
+ * back to the defaults if unreadable.
+ */
+export function readStyleVariables(el = document.body): { [K in keyof StyleVariableSettings]-?: NonNullable<StyleVariableSettings[K]> } {
+	let style = el.win.getComputedStyle(el),
+		moveSpeed = parseTime(style.getPropertyValue(VARIABLES.moveSpeed)),
+		blinkPeriod = parseTime(style.getPropertyValue(VARIABLES.blinkPeriod)),
+		blinkCount = parseInt(style.getPropertyValue(VARIABLES.blinkCount));
+
+	return {
+		moveSpeed: isNaN(moveSpeed) ? DEFAULT_MOVE_SPEED : moveSpeed,
+		moveEasing: style.getPropertyValue(VARIABLES.moveEasing).trim() || DEFAULT_MOVE_EASING,
+		blinkPeriod: isNaN(blinkPeriod) ? DEFAULT_BLINK.blinkPeriod : blinkPeriod,
+		blinkCount: isNaN(blinkCount) ? DEFAULT_BLINK.blinkCount : blinkCount,
+		blinkInfinite: el.hasClass(BLINK_INFINITY_CLASS)
+	};
+}
+
+/**
+ * Resolve the effective blink config, with every variable already applied,
+ * so the canvas effects blink along with the native cursor.
+ *
+ * @param target Resolved in place, so whoever holds it picks the changes
+ * up.
+ */
+export function resolveBlinkConfig(
+	settings: StyleVariableSettings & { blinkStyle: BlinkStyle, blinkDelay: number },
+	target: BlinkConfig,
+	el = document.body
+): void {
+	let variables = readStyleVariables(el);
+
+	target.blinkStyle = settings.blinkStyle;
+	target.blinkDelay = settings.blinkDelay;
+	target.blinkPeriod = variables.blinkPeriod;
+	target.blinkCount = variables.blinkCount;
+	target.blinkInfinite = settings.blinkInfinite ?? variables.blinkInfinite;
+}
@@ -0,0 +1,107 @@
+import { syntaxTree } from "@codemirror/language";
+import { EditorState } from "@codemirror/state";
+import { ThemeColorConfig, THEME_COLOR_SCHEMA } from "src/color";
+import { CURSOR_SHAPES, CursorShape, CursorStyle } from "src/cursor-marker";
+import { SettingsSchema } from "src/settings-schema";
+
+export type SyntaxContext = "frontmatter" | "code" | "math" | "comment" | "link" | "heading";
+
+/** In order of precedence, e.g. a link inside a heading counts as a link. */
+export const SYNTAX_CONTEXTS: readonly SyntaxContext[] = ["frontmatter", "code", "math", "comment", "link", "heading"];
+
+/**
+ * Cursor appearance inside a syntax context, overriding the cursor color
+ * and shape. An empty color keeps the cursor's.
+ */
+export interface ContextStyle extends ThemeColorConfig {
+	/** Null keeps the cursor shape. */
+	cursorShape: CursorShape | null;
+}
+
+export interface SyntaxContextConfig {
+	enabled: boolean;
+	/** Duration of the color change between contexts, in miliseconds. */
+	transition: number;
+	styles: Record<SyntaxContext, ContextStyle>;
+}
+
+export const DEFAULT_SYNTAX_CONTEXT: SyntaxContextConfig = {
+	enabled: false,
+	transition: 150,
+	styles: {
+		frontmatter: { color: "--text-muted", colorDark: "", cursorShape: null },
+		code: { color: "--code-normal", colorDark: "", cursorShape: null },
+		math: { color: "--color-purple", colorDark: "", cursorShape: null },
+		comment: { color: "--code-comment", colorDark: "", cursorShape: null },
+		link: { color: "--link-color", colorDark: "", cursorShape: null },
+		heading: { color: "--text-accent", colorDark: "", cursorShape: null }
+	}
+};
+
+const CONTEXT_STYLE_SCHEMA: SettingsSchema<ContextStyle> = {
+	...THEME_COLOR_SCHEMA,
+	color: { type: "color", optional: true },
+	cursorShape: { type: "enum", values: CURSOR_SHAPES, nullable: true }
+};
+
+export const SYNTAX_CONTEXT_SCHEMA: SettingsSchema<SyntaxContextConfig> = {
+	enabled: { type: "boolean" },
+	transition: { type: "number", min: 0, max: 2000 },
+	styles: {
+		type: "object",
+		fields: Object.fromEntries(SYNTAX_CONTEXTS.map(context => [
+			context,
+			{ type: "object", fields: CONTEXT_STYLE_SCHEMA }
+		]))
+	}
+};
+
+/**
+ * Token types of each context, as named by the Markdown mode of Obsidian.
+ * A node name holds every token type of the node, joined by underscores.
+ */
+const CONTEXT_TOKENS: Record<SyntaxContext, RegExp> = {
+	frontmatter: /^hmd-frontmatter$/,
+	code: /^(inline-code|hmd-codeblock|formatting-code|formatting-code-block)$/,
+	math: /^(math|formatting-math)$/,
+	comment: /^(comment|formatting-comment)$/,
+	link: /^(link|url|hmd-internal-link|hmd-barelink|formatting-link|formatting-link-string)$/,
+	heading: /^header(-\d)?$/
+};
+
+function matchContext(nodeName: string): SyntaxContext | null {
+	let tokens = nodeName.split(/[_ ]/);
+	return SYNTAX_CONTEXTS.find(context => tokens.some(token => CONTEXT_TOKENS[context].test(token))) ?? null;
+}
+
+/**
+ * Get the syntax context at the position, out of the syntax tree. The
+ * cursor belongs to the text before it, as typed text would, unless it
+ * sits at the line start.
+ */
+export function getSyntaxContext(state: EditorState, pos: number): SyntaxContext | null {
+	let tree = syntaxTree(state),
+		side: -1 | 1 = pos == state.doc.lineAt(pos).from ? 1 : -1;
+
+	for (let node = tree.resolveInner(pos, side); node.parent; node = node.parent) {
+		let context = matchContext(node.name);
+		if (context) return context;
+	}
+	return null;
+}
+
+/**
+ * Get the style of the syntax context at the position, null if there is
+ * none or it's turned off.
+ */
+export function getContextStyle(config: SyntaxContextConfig, state: EditorState, pos: number): ContextStyle | null {
+	if (!config.enabled) return null;
+	let context = getSyntaxContext(state, pos);
+	return context ? config.styles[context] : null;
+}
+
+/** Apply the cursor shape of the context, if it sets one. */
+export function withContextShape<T extends CursorStyle>(style: T, contextStyle: ContextStyle | null): T {
+	let shape = contextStyle?.cursorShape;
+	return shape ? { ...style, cursorShape: shape } : style;
+}
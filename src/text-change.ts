@@ -0,0 +1,293 @@
+import { Extension, Range } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, PluginValue, ViewPlugin, ViewUpdate } from "@codemirror/view";
+import { Setting } from "obsidian";
+import { DEFAULT_PAINT, getThemeColor, resolveColor, ThemeColorConfig, THEME_COLOR_SCHEMA, toCssColor } from "src/color";
+import { CursorEffectPlugin, CursorEffectConfig, EffectCursor } from "src/cursor-effect";
+import { CursorEffectSpec } from "src/effect-registry";
+import { SettingsSchema } from "src/settings-schema";
+import { getBaseCoords } from "src/cursor-marker";
+import { advanceMotion, DEFAULT_MOTION } from "src/motion";
+import { addThemeColorSettings } from "src/setting-tab";
+
+/** At most this many deletions of a single update leave a ghost. */
+const MAX_GHOSTS = 32;
+
+/** Lines of a ghost beyond this count aren't drawn. */
+const MAX_GHOST_LINES = 20;
+
+/** Ghosts drift up by this distance while fading, in pixels. */
+const GHOST_DRIFT = 6;
+
+export type InsertStyle = "fade" | "slide" | "none";
+
+export interface TextChangeConfig extends CursorEffectConfig, ThemeColorConfig {
+	/** Animation of the inserted text. */
+	insertStyle: InsertStyle;
+	/** Let the deleted text leave a fading ghost. */
+	deleteGhost: boolean;
+	/** In miliseconds. */
+	duration: number;
+	/** Changes touching more characters than this aren't animated. */
+	maxChars: number;
+}
+
+const DEFAULT_CONFIG: TextChangeConfig = {
+	enabled: false,
+	color: "",
+	colorDark: DEFAULT_PAINT.colorDark,
+	insertStyle: "fade",
+	deleteGhost: true,
+	duration: 300,
+	maxChars: 2000
+};
+
+const CONFIG_SCHEMA: SettingsSchema<TextChangeConfig> = {
+	...THEME_COLOR_SCHEMA,
+	color: { type: "color", optional: true },
+	insertStyle: { type: "enum", values: ["fade", "slide", "none"] },
+	deleteGhost: { type: "boolean" },
+	duration: { type: "number", min: 0, max: 10000 },
+	maxChars: { type: "number", min: 0, integer: true }
+};
+
+interface Ghost {
+	/** Start of the first line, in document coordinates. */
+	x: number;
+	y: number;
+	/** Start of the following lines. */
+	lineX: number;
+	lineHeight: number;
+	lines: string[];
+	font: string;
+	color: string;
+	age: number;
+}
+
+/** Total characters touched by the changes of the update. */
+function getChangeSize(update: ViewUpdate): number {
+	let size = 0;
+	update.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+		size += (toA - fromA) + (toB - fromB);
+	});
+	return size;
+}
+
+/**
+ * Leaves a fading ghost of the deleted text at its old position. Newly
+ * inserted text is animated by the decorations of `textInsertPlugin()`.
+ *
+ * Draws over the cursor of the other effects, or the native one.
+ */
+class TextChangePlugin extends CursorEffectPlugin<EffectCursor, TextChangeConfig> {
+	private ghosts: Ghost[] = [];
+
+	protected createCursor(base: EffectCursor): EffectCursor {
+		return base;
+	}
+
+	protected disable(): void {
+		super.disable();
+		this.ghosts = [];
+	}
+
+	protected onViewUpdate(update: ViewUpdate): void {
+		const config = this.getConfig();
+		if (!update.docChanged || !config.deleteGhost || getChangeSize(update) > config.maxChars) return;
+
+		const deletions: { pos: number; text: string }[] = [];
+		update.changes.iterChanges((fromA, toA, fromB) => {
+			if (toA == fromA || deletions.length >= MAX_GHOSTS) return;
+			deletions.push({ pos: fromB, text: update.startState.doc.sliceString(fromA, toA) });
+		});
+		if (!deletions.length) return;
+
+		// Changes happen in the drawn view, either this view or its table
+		// cell's one, but are drawn in this view's coordinates.
+		const sourceView = update.view;
+		this.view.requestMeasure({
+			read: () => {
+				const base = getBaseCoords(this.view);
+				const ghosts: Ghost[] = [];
+				for (const { pos, text } of deletions) {
+					if (pos > sourceView.state.doc.length) continue;
+					const coords = sourceView.coordsAtPos(pos, 1);
+					const lineCoords = sourceView.coordsAtPos(sourceView.state.doc.lineAt(pos).from, 1);
+					const { node } = sourceView.domAtPos(pos);
+					const el = node instanceof HTMLElement ? node : node.parentElement;
+					if (!coords || !el) continue;
+
+					const style = el.win.getComputedStyle(el);
+					ghosts.push({
+						x: coords.left - base.left,
+						y: coords.top - base.top,
+						lineX: (lineCoords?.left ?? coords.left) - base.left,
+						lineHeight: coords.bottom - coords.top,
+						lines: text.split("\n", MAX_GHOST_LINES),
+						font: `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`,
+						color: style.color,
+						age: 0
+					});
+				}
+				return ghosts;
+			},
+			write: ghosts => {
+				if (!this.surface || !ghosts.length) return;
+				this.ghosts.push(...ghosts);
+				this.requestFrame();
+			}
+		});
+	}
+
+	protected needsFrame(): boolean {
+		return this.ghosts.length > 0;
+	}
+
+	render(ctx: CanvasRenderingContext2D, dt: number): void {
+		const config = this.getConfig();
+
+		// Ghosts only draw, the cursors still have to settle.
+		for (const cursor of this.cursors) advanceMotion(cursor, dt, DEFAULT_MOTION);
+
+		ctx.textBaseline = "middle";
+		this.ghosts = this.ghosts.filter(ghost => {
+			ghost.age += dt;
+			if (ghost.age >= config.duration) return false;
+			this.drawGhost(ctx, ghost, config);
+			return true;
+		});
+		ctx.globalAlpha = 1;
+	}
+
+	private drawGhost(ctx: CanvasRenderingContext2D, ghost: Ghost, config: TextChangeConfig): void {
+		const progress = config.duration > 0 ? ghost.age / config.duration : 1;
+		const drift = GHOST_DRIFT * (1 - Math.pow(1 - progress, 3));
+
+		ctx.globalAlpha = 0.6 * (1 - progress) * this.layerOpacity;
+		const doc = this.view.dom.doc;
+		const color = getThemeColor(config, doc);
+		ctx.fillStyle = color ? toCssColor(resolveColor(color, doc)) : ghost.color;
+		ctx.font = ghost.font;
+
+		ghost.lines.forEach((line, i) => {
+			ctx.fillText(
+				line,
+				i ? ghost.lineX : ghost.x,
+				ghost.y + ghost.lineHeight * (i + 0.5) - drift
+			);
+		});
+	}
+}
+
+/**
+ * Marks the inserted text with a short-lived decoration, animated through
+ * CSS. Expired marks are dropped upon the next update, before their line
+ * gets a chance to be redrawn.
+ */
+class TextInsertPlugin implements PluginValue {
+	public decorations: DecorationSet = Decoration.none;
+	private readonly getConfig: (view?: EditorView) => TextChangeConfig;
+
+	constructor(getConfig: (view?: EditorView) => TextChangeConfig) {
+		this.getConfig = getConfig;
+	}
+
+	update(update: ViewUpdate): void {
+		const config = this.getConfig(update.view);
+		const now = Date.now();
+
+		this.decorations = this.decorations
+			.map(update.changes)
+			.update({ filter: (from, to, value) => value.spec.expiry > now });
+
+		if (
+			!update.docChanged ||
+			!config.enabled ||
+			config.insertStyle == "none" ||
+			getChangeSize(update) > config.maxChars
+		) return;
+
+		const mark = Decoration.mark({
+			class: `cm-insertedText cm-insertedText-${config.insertStyle}`,
+			attributes: { style: `animation-duration: ${config.duration}ms` },
+			expiry: now + config.duration
+		});
+		const ranges: Range<Decoration>[] = [];
+		update.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+			if (toB > fromB) ranges.push(mark.range(fromB, toB));
+		});
+		this.decorations = this.decorations.update({ add: ranges });
+	}
+}
+
+function textInsertPlugin(getConfig: (view?: EditorView) => TextChangeConfig): Extension {
+	return ViewPlugin.define(() => new TextInsertPlugin(getConfig), {
+		decorations: value => value.decorations
+	});
+}
+
+export const textChangeEffect: CursorEffectSpec<TextChangeConfig> = {
+	id: "text-change",
+	name: "Text Changes",
+	effect: TextChangePlugin,
+	defaultConfig: DEFAULT_CONFIG,
+	schema: CONFIG_SCHEMA,
+	overlay: true,
+	extension: textInsertPlugin,
+	buildSettings({ containerEl, config, reset, save, refresh }) {
+		new Setting(containerEl)
+			.setName("Insertion")
+			.setDesc("How the inserted text appears.")
+			.addExtraButton(reset("insertStyle"))
+			.addDropdown(dropdown => dropdown
+				.addOptions({ fade: "Fade in", slide: "Slide in", none: "None" })
+				.setValue(config.insertStyle)
+				.onChange(val => {
+					config.insertStyle = val as InsertStyle;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Deletion Ghost")
+			.setDesc("Deleted text leaves a fading ghost at its old position.")
+			.addExtraButton(reset("deleteGhost"))
+			.addToggle(toggle => toggle
+				.setValue(config.deleteGhost)
+				.onChange(async val => {
+					config.deleteGhost = val;
+					await save();
+					refresh();
+				})
+			);
+		if (config.deleteGhost) addThemeColorSettings(
+			containerEl, config, "Ghost Color",
+			"Leave it empty to use the color of the deleted text.",
+			save, reset, true
+		);
+		new Setting(containerEl)
+			.setName("Duration")
+			.setDesc("In miliseconds.")
+			.addExtraButton(reset("duration"))
+			.addSlider(slider => slider
+				.setLimits(100, 1000, 25)
+				.setValue(config.duration)
+				.setDynamicTooltip()
+				.onChange(val => {
+					config.duration = val;
+					save();
+				})
+			);
+		new Setting(containerEl)
+			.setName("Size Cutoff")
+			.setDesc("Changes touching more characters than this, like pasting a large block, aren't animated.")
+			.addExtraButton(reset("maxChars"))
+			.addText(text => text
+				.setValue(String(config.maxChars))
+				.onChange(val => {
+					const maxChars = parseInt(val);
+					if (isNaN(maxChars) || maxChars < 0) return;
+					config.maxChars = maxChars;
+					save();
+				})
+			);
+	}
+};
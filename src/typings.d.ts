@@ -16,6 +16,14 @@ import "monkey-around";
 declare module "@codemirror/view" {
 	type LayerConfig = Parameters<typeof layer>[0];
 
+	interface EditorView {
+		/**
+		 * CodeMirror 5 adapter, attached by the Vim mode extension while Vim
+		 * mode is on.
+		 */
+		cm?: VimAdapter;
+	}
+
 	type LayerPluginInstance = PluginInstance<LayerView>;
 
 	/**
@@ -95,4 +103,39 @@ export interface CursorLayerView extends LayerView {
 	readonly layer: LayerConfig;
 }
 
-export type CursorPluginInstance = PluginInstance<CursorLayerView>;
\ No newline at end of file
+export type CursorPluginInstance = PluginInstance<CursorLayerView>;
+
+export interface SelectionLayerView extends LayerView {
+	readonly layer: LayerConfig;
+}
+
+export type SelectionPluginInstance = PluginInstance<SelectionLayerView>;
+
+/**
+ * Vim state of the editor, kept by the Vim mode extension.
+ */
+export interface VimState {
+	insertMode: boolean;
+	visualMode: boolean;
+	visualLine: boolean;
+	visualBlock: boolean;
+}
+
+export interface VimModeChangeEvent {
+	mode: "normal" | "insert" | "visual" | "replace";
+	subMode?: string;
+}
+
+/**
+ * CodeMirror 5 adapter of the Vim mode extension. Only the parts used by
+ * this plugin are declared.
+ */
+export interface VimAdapter {
+	state: {
+		vim?: VimState | null;
+		/** Whether it's in replace mode, along with `vim.insertMode`. */
+		overwrite?: boolean;
+	};
+	on(event: "vim-mode-change", handler: (evt: VimModeChangeEvent) => void): void;
+	off(event: "vim-mode-change", handler: (evt: VimModeChangeEvent) => void): void;
+}
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { Annotation, EditorSelection, findClusterBreak, SelectionRange } from "@codemirror/state";
+import { EditorView, PluginValue, ViewPlugin, ViewUpdate } from "@codemirror/view";
+import { CursorShape, CursorStyle } from "src/cursor-marker";
+import { VimAdapter } from "src/typings";
+
+export type VimMode = "normal" | "insert" | "visual" | "replace";
+
+/** Cursor shape of each Vim mode, when the cursor follows it. */
+const VIM_MODE_SHAPES: Record<VimMode, CursorShape> = {
+	normal: "block",
+	insert: "bar",
+	visual: "block",
+	replace: "underline"
+};
+
+/**
+ * Get the current Vim mode of the view, null if Vim mode is off.
+ */
+export function getVimMode(view: EditorView): VimMode | null {
+	let vim = view.cm?.state.vim;
+	if (!vim) return null;
+	if (vim.insertMode) return view.cm?.state.overwrite ? "replace" : "insert";
+	return vim.visualMode ? "visual" : "normal";
+}
+
+/**
+ * Get the cursor style applied to the view. If it follows Vim mode, the
+ * shape is switched to match the current mode.
+ */
+export function resolveCursorStyle<T extends CursorStyle>(style: T, view: EditorView): T {
+	let mode = style.followVimMode ? getVimMode(view) : null;
+	return mode ? { ...style, cursorShape: VIM_MODE_SHAPES[mode] } : style;
+}
+
+/**
+ * Get the range the cursor is drawn at. In visual mode, the Vim cursor
+ * sits on the last selected character, before the head of a forward
+ * selection.
+ */
+export function getCursorRange(style: CursorStyle, view: EditorView, range: SelectionRange): SelectionRange {
+	if (
+		!style.followVimMode ||
+		range.head <= range.anchor ||
+		getVimMode(view) != "visual"
+	) return range;
+
+	let line = view.state.doc.lineAt(range.head),
+		pos = range.head > line.from
+			? line.from + findClusterBreak(line.text, range.head - line.from, false)
+			: range.head - 1;
+	return EditorSelection.cursor(pos, 1);
+}
+
+/**
+ * Dispatched by `vimModeObserver` upon Vim mode change, so the cursor is
+ * redrawn in its new shape.
+ */
+export const vimModeChange = Annotation.define<VimMode | null>();
+
+/**
+ * Listens to the Vim mode changes of the view, dispatching
+ * `vimModeChange` annotation. The Vim adapter is attached and detached
+ * along with Vim mode, thus it's checked upon every update.
+ */
+class VimModeObserver implements PluginValue {
+	private readonly view: EditorView;
+	private adapter?: VimAdapter;
+	private destroyed = false;
+
+	constructor(view: EditorView) {
+		this.view = view;
+		this.onModeChange = this.onModeChange.bind(this);
+		this.attach();
+	}
+
+	update(update: ViewUpdate): void {
+		if (update.view.cm !== this.adapter) this.attach();
+	}
+
+	destroy(): void {
+		this.destroyed = true;
+		this.adapter?.off("vim-mode-change", this.onModeChange);
+	}
+
+	private attach(): void {
+		this.adapter?.off("vim-mode-change", this.onModeChange);
+		this.adapter = this.view.cm;
+		this.adapter?.on("vim-mode-change", this.onModeChange);
+	}
+
+	private onModeChange(): void {
+		// The mode may change while the view is being updated.
+		queueMicrotask(() => {
+			if (this.destroyed) return;
+			this.view.dispatch({ annotations: vimModeChange.of(getVimMode(this.view)) });
+		});
+	}
+}
+
+export const vimModeObserver = ViewPlugin.fromClass(VimModeObserver);